@@ -0,0 +1,96 @@
+package dl.equipmentCalculator.controller
+
+import dl.equipmentCalculator.model.ApiError
+import dl.equipmentCalculator.model.ErrorCode
+import dl.equipmentCalculator.model.exception.ApiException
+import org.slf4j.Logger
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.http.converter.HttpMessageNotReadableException
+import org.springframework.web.HttpMediaTypeNotAcceptableException
+import org.springframework.web.HttpMediaTypeNotSupportedException
+import org.springframework.web.HttpRequestMethodNotSupportedException
+import org.springframework.web.bind.MissingServletRequestParameterException
+import org.springframework.web.bind.annotation.ExceptionHandler
+import org.springframework.web.bind.annotation.RestControllerAdvice
+import org.springframework.web.method.annotation.MethodArgumentTypeMismatchException
+import org.springframework.web.server.ResponseStatusException
+import org.springframework.web.servlet.NoHandlerFoundException
+import javax.servlet.ServletException
+
+/**
+ * Answers every failed request with an [ApiError] body instead of the default Spring error page.
+ */
+@RestControllerAdvice
+class ApiExceptionHandler {
+
+    @ExceptionHandler(ApiException::class)
+    fun handleApiException(exception: ApiException): ResponseEntity<ApiError> {
+        LOG.info("${exception.code}: ${exception.message} ${exception.details}")
+        return ResponseEntity.badRequest().body(exception.toApiError())
+    }
+
+    @ExceptionHandler(MethodArgumentTypeMismatchException::class)
+    fun handleTypeMismatch(exception: MethodArgumentTypeMismatchException): ResponseEntity<ApiError> {
+        LOG.info("Invalid value ${exception.value} for ${exception.name}")
+        return ResponseEntity.badRequest().body(
+            ApiError(
+                ErrorCode.INVALID_INPUT,
+                "${exception.value} ist kein gültiger Wert für ${exception.name}.",
+                mapOf("parameter" to exception.name)
+            )
+        )
+    }
+
+    @ExceptionHandler(MissingServletRequestParameterException::class)
+    fun handleMissingParameter(exception: MissingServletRequestParameterException): ResponseEntity<ApiError> {
+        LOG.info("Missing parameter ${exception.parameterName}")
+        return ResponseEntity.badRequest().body(
+            ApiError(
+                ErrorCode.INVALID_INPUT,
+                "Der Parameter ${exception.parameterName} fehlt.",
+                mapOf("parameter" to exception.parameterName)
+            )
+        )
+    }
+
+    // the other client errors Spring raises before the controller is called, e.g. an unsupported method
+    @ExceptionHandler(ServletException::class, HttpMessageNotReadableException::class)
+    fun handleInvalidRequest(exception: Exception): ResponseEntity<ApiError> {
+        LOG.info("Invalid request: ${exception.message}")
+        return ResponseEntity.status(clientErrorStatus(exception)).body(
+            ApiError(ErrorCode.INVALID_INPUT, "Die Anfrage ist ungültig.")
+        )
+    }
+
+    @ExceptionHandler(ResponseStatusException::class)
+    fun handleResponseStatus(exception: ResponseStatusException): ResponseEntity<ApiError> {
+        if (exception.status.is5xxServerError) return handleException(exception)
+        LOG.info("${exception.status}: ${exception.reason}")
+        return ResponseEntity.status(exception.status).body(
+            ApiError(ErrorCode.INVALID_INPUT, exception.reason ?: "Die Anfrage ist ungültig.")
+        )
+    }
+
+    // the message of an unexpected exception is only logged, it may contain internals
+    @ExceptionHandler(Exception::class)
+    fun handleException(exception: Exception): ResponseEntity<ApiError> {
+        LOG.error("Unexpected error during equipment calculation", exception)
+        return ResponseEntity.status(HttpStatus.INTERNAL_SERVER_ERROR).body(
+            ApiError(ErrorCode.INTERNAL_ERROR, "Ein unerwarteter Fehler ist aufgetreten.")
+        )
+    }
+
+    private fun clientErrorStatus(exception: Exception): HttpStatus = when (exception) {
+        is HttpRequestMethodNotSupportedException -> HttpStatus.METHOD_NOT_ALLOWED
+        is HttpMediaTypeNotSupportedException -> HttpStatus.UNSUPPORTED_MEDIA_TYPE
+        is HttpMediaTypeNotAcceptableException -> HttpStatus.NOT_ACCEPTABLE
+        is NoHandlerFoundException -> HttpStatus.NOT_FOUND
+        else -> HttpStatus.BAD_REQUEST
+    }
+
+    companion object {
+        val LOG: Logger = LoggerFactory.getLogger(ApiExceptionHandler::class.java)
+    }
+}
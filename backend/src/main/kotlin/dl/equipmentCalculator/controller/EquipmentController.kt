@@ -1,5 +1,6 @@
 package dl.equipmentCalculator.controller
 
+import dl.equipmentCalculator.model.BaseStats
 import dl.equipmentCalculator.model.Element
 import dl.equipmentCalculator.model.Element.Companion.combineElements
 import dl.equipmentCalculator.model.Element.Companion.getWantedDefenseElements
@@ -10,21 +11,25 @@ import dl.equipmentCalculator.model.Equipment.Companion.MAX_WEIGHT_BONUS
 import dl.equipmentCalculator.model.Equipment.Companion.validWeightAndElements
 import dl.equipmentCalculator.model.EquipmentLists
 import dl.equipmentCalculator.model.EquipmentSet
+import dl.equipmentCalculator.model.EquipmentSet.Companion.getTotalStat
 import dl.equipmentCalculator.model.EquipmentSet.Companion.getWeightedTotalStats
+import dl.equipmentCalculator.model.RankedEquipmentSet
+import dl.equipmentCalculator.model.StatBound
+import dl.equipmentCalculator.model.StatBounds
 import dl.equipmentCalculator.model.exception.ElementMismatchException
+import dl.equipmentCalculator.model.exception.InvalidInputException
 import dl.equipmentCalculator.model.exception.InvalidItemCombinationException
+import dl.equipmentCalculator.model.exception.StatBoundException
 import dl.equipmentCalculator.service.EquipmentService
 import org.slf4j.Logger
 import org.slf4j.LoggerFactory
 import org.springframework.beans.factory.annotation.Autowired
 import org.springframework.cache.annotation.Cacheable
-import org.springframework.http.HttpStatus
 import org.springframework.web.bind.annotation.CrossOrigin
 import org.springframework.web.bind.annotation.GetMapping
 import org.springframework.web.bind.annotation.RequestMapping
 import org.springframework.web.bind.annotation.RequestParam
 import org.springframework.web.bind.annotation.RestController
-import org.springframework.web.server.ResponseStatusException
 
 @CrossOrigin(origins = ["http://localhost:4200", "https://tools.demonlords.de"])
 @RestController
@@ -52,50 +57,172 @@ class EquipmentController {
         @RequestParam(value = "vpWeight", defaultValue = "0") vpWeight: Int = 0,
         @RequestParam(value = "hpWeight", defaultValue = "0") hpWeight: Int = 0,
         @RequestParam(value = "mpWeight", defaultValue = "0") mpWeight: Int = 0,
-        @RequestParam(value = "ignoredItems", required = false) ignoredItemsParam: String? = null
+        @RequestParam(value = "schmiedekunst", defaultValue = "0") schmiedekunst: Int = 0,
+        @RequestParam(value = "minAp", required = false) minAp: Int? = null,
+        @RequestParam(value = "maxAp", required = false) maxAp: Int? = null,
+        @RequestParam(value = "minVp", required = false) minVp: Int? = null,
+        @RequestParam(value = "maxVp", required = false) maxVp: Int? = null,
+        @RequestParam(value = "minHp", required = false) minHp: Int? = null,
+        @RequestParam(value = "maxHp", required = false) maxHp: Int? = null,
+        @RequestParam(value = "minMp", required = false) minMp: Int? = null,
+        @RequestParam(value = "maxMp", required = false) maxMp: Int? = null,
+        @RequestParam(value = "baseAp", required = false) baseAp: Int? = null,
+        @RequestParam(value = "baseVp", required = false) baseVp: Int? = null,
+        @RequestParam(value = "baseHp", required = false) baseHp: Int? = null,
+        @RequestParam(value = "baseMp", required = false) baseMp: Int? = null,
+        @RequestParam(value = "ignoredItems", required = false) ignoredItemsParam: String? = null,
+        @RequestParam(value = "pinnedItems", required = false) pinnedItemsParam: String? = null
     ): EquipmentSet {
-        try {
-            // Parse ignored items
-            val ignoredItems = ignoredItemsParam
-                ?.split(",")
-                ?.map { it.trim() }
-                ?.filter { it.isNotEmpty() }
-                ?: emptyList()
-                
-            if ((rangedRequired && rangedForbidden) || (rangedRequired && !unitRanged)) {
-                LOG.error("Invalid ranged parameters. Unit can use ranged weapons: $unitRanged | rangedRequired: $rangedRequired | rangedForbidden: $rangedForbidden")
-                throw InvalidItemCombinationException()
-            }
-            if (!isValidElementCombination(unitElement, elementAttack, elementDefense)) {
-                LOG.error("Invalid element combination \"$unitElement\", \"$elementAttack\" and \"$elementDefense\"!")
-                throw ElementMismatchException("Die gewählte Elementkombination ist ungültig.")
-            }
+        val best = calculateRanking(
+            unitElement,
+            unitCarryWeight,
+            unitRanged,
+            schmiedeLevel,
+            rangedRequired,
+            rangedForbidden,
+            apWeight,
+            vpWeight,
+            hpWeight,
+            mpWeight,
+            elementAttack,
+            elementDefense,
+            schmiedekunst,
+            StatBounds(minAp, maxAp, minVp, maxVp, minHp, maxHp, minMp, maxMp),
+            BaseStats(baseAp, baseVp, baseHp, baseMp),
+            ignoredItemsParam,
+            pinnedItemsParam,
+            1
+        ).first()
+        // the single set needs a positive score, as before the ranking endpoint was added
+        if (best.score <= 0) {
+            throw InvalidItemCombinationException(details = mapOf("constraint" to "NO_COMBINATION"))
+        }
+        return best.set
+    }
 
-            return getBestItemCombination(
-                unitElement,
-                unitCarryWeight,
-                unitRanged,
-                schmiedeLevel,
-                rangedRequired,
-                rangedForbidden,
-                apWeight,
-                vpWeight,
-                hpWeight,
-                mpWeight,
-                elementAttack,
-                elementDefense,
-                ignoredItems
+    @GetMapping("/ranking")
+    @Cacheable("equipmentRanking")
+    fun ranking(
+        @RequestParam(value = "unitCarryWeight", defaultValue = "0") unitCarryWeight: Int,
+        @RequestParam(value = "unitElement", defaultValue = "NONE") unitElement: Element = Element.NONE,
+        @RequestParam(value = "unitRanged", required = false) unitRanged: Boolean = false,
+        @RequestParam(value = "waffenschmiede", defaultValue = "0") schmiedeLevel: Int = 0,
+        @RequestParam(value = "rangedRequired", required = false) rangedRequired: Boolean = false,
+        @RequestParam(value = "rangedForbidden", required = false) rangedForbidden: Boolean = false,
+        @RequestParam(value = "elementAttack", required = false) elementAttack: Element? = null,
+        @RequestParam(value = "elementDefense", required = false) elementDefense: Element? = null,
+        @RequestParam(value = "apWeight", defaultValue = "0") apWeight: Int = 0,
+        @RequestParam(value = "vpWeight", defaultValue = "0") vpWeight: Int = 0,
+        @RequestParam(value = "hpWeight", defaultValue = "0") hpWeight: Int = 0,
+        @RequestParam(value = "mpWeight", defaultValue = "0") mpWeight: Int = 0,
+        @RequestParam(value = "schmiedekunst", defaultValue = "0") schmiedekunst: Int = 0,
+        @RequestParam(value = "minAp", required = false) minAp: Int? = null,
+        @RequestParam(value = "maxAp", required = false) maxAp: Int? = null,
+        @RequestParam(value = "minVp", required = false) minVp: Int? = null,
+        @RequestParam(value = "maxVp", required = false) maxVp: Int? = null,
+        @RequestParam(value = "minHp", required = false) minHp: Int? = null,
+        @RequestParam(value = "maxHp", required = false) maxHp: Int? = null,
+        @RequestParam(value = "minMp", required = false) minMp: Int? = null,
+        @RequestParam(value = "maxMp", required = false) maxMp: Int? = null,
+        @RequestParam(value = "baseAp", required = false) baseAp: Int? = null,
+        @RequestParam(value = "baseVp", required = false) baseVp: Int? = null,
+        @RequestParam(value = "baseHp", required = false) baseHp: Int? = null,
+        @RequestParam(value = "baseMp", required = false) baseMp: Int? = null,
+        @RequestParam(value = "ignoredItems", required = false) ignoredItemsParam: String? = null,
+        @RequestParam(value = "pinnedItems", required = false) pinnedItemsParam: String? = null,
+        @RequestParam(value = "limit", defaultValue = "5") limit: Int = 5
+    ): List<RankedEquipmentSet> {
+        if (limit < 1 || limit > MAX_RANKING_SIZE) {
+            throw InvalidInputException(
+                "Es können 1 bis $MAX_RANKING_SIZE Sets berechnet werden.",
+                mapOf("constraint" to "LIMIT", "min" to 1, "max" to MAX_RANKING_SIZE)
             )
-        } catch (exception: ElementMismatchException) {
-            LOG.info("Element mismatch error: ${exception.message}")
-            throw ResponseStatusException(HttpStatus.BAD_REQUEST, exception.message, exception)
-        } catch (exception: InvalidItemCombinationException) {
-            LOG.info("Invalid item combination error: ${exception.message}")
-            throw ResponseStatusException(HttpStatus.BAD_REQUEST, exception.message, exception)
-        } catch (exception: Exception) {
-            LOG.error("Unexpected error during equipment calculation", exception)
-            throw ResponseStatusException(HttpStatus.INTERNAL_SERVER_ERROR, "Ein unerwarteter Fehler ist aufgetreten: ${exception.message}", exception)
         }
+        return calculateRanking(
+            unitElement,
+            unitCarryWeight,
+            unitRanged,
+            schmiedeLevel,
+            rangedRequired,
+            rangedForbidden,
+            apWeight,
+            vpWeight,
+            hpWeight,
+            mpWeight,
+            elementAttack,
+            elementDefense,
+            schmiedekunst,
+            StatBounds(minAp, maxAp, minVp, maxVp, minHp, maxHp, minMp, maxMp),
+            BaseStats(baseAp, baseVp, baseHp, baseMp),
+            ignoredItemsParam,
+            pinnedItemsParam,
+            limit
+        )
+    }
+
+    private fun calculateRanking(
+        unitElement: Element,
+        unitCarryWeight: Int,
+        unitRanged: Boolean,
+        schmiedeLevel: Int,
+        rangedRequired: Boolean,
+        rangedForbidden: Boolean,
+        apWeight: Int,
+        vpWeight: Int,
+        hpWeight: Int,
+        mpWeight: Int,
+        elementAttack: Element?,
+        elementDefense: Element?,
+        schmiedekunst: Int,
+        statBounds: StatBounds,
+        baseStats: BaseStats,
+        ignoredItemsParam: String?,
+        pinnedItemsParam: String?,
+        limit: Int
+    ): List<RankedEquipmentSet> {
+        val ignoredItems = parseItemNames(ignoredItemsParam)
+        val pinnedItems = parseItemNames(pinnedItemsParam)
+
+        if ((rangedRequired && rangedForbidden) || (rangedRequired && !unitRanged)) {
+            LOG.error("Invalid ranged parameters. Unit can use ranged weapons: $unitRanged | rangedRequired: $rangedRequired | rangedForbidden: $rangedForbidden")
+            throw InvalidItemCombinationException(details = mapOf("constraint" to "RANGED"))
+        }
+        if (!isValidElementCombination(unitElement, elementAttack, elementDefense)) {
+            LOG.error("Invalid element combination \"$unitElement\", \"$elementAttack\" and \"$elementDefense\"!")
+            throw ElementMismatchException(details = mapOf("constraint" to "TARGET_ELEMENTS"))
+        }
+        validatePinnedItems(
+            pinnedItems,
+            unitElement,
+            unitCarryWeight,
+            unitRanged,
+            schmiedeLevel,
+            rangedRequired,
+            rangedForbidden,
+            elementAttack,
+            elementDefense
+        )
+
+        return getBestItemCombinations(
+            unitElement,
+            unitCarryWeight,
+            unitRanged,
+            schmiedeLevel,
+            rangedRequired,
+            rangedForbidden,
+            apWeight,
+            vpWeight,
+            hpWeight,
+            mpWeight,
+            elementAttack,
+            elementDefense,
+            ignoredItems,
+            limit,
+            schmiedekunst,
+            statBounds,
+            pinnedItems,
+            baseStats
+        )
     }
 
     @GetMapping("/refresh")
@@ -122,7 +249,12 @@ class EquipmentController {
         )
     }
 
-    fun getBestItemCombination(
+    /**
+     * Returns the [limit] best item combinations ordered by their weighted score including the [schmiedekunst] bonus.
+     * On equal scores the combination found first is ranked higher. Only combinations whose stats are within the
+     * [statBounds] are considered. With complete [baseStats] the score is the improvement over them in percent.
+     */
+    fun getBestItemCombinations(
         unitElement: Element,
         unitCarryWeight: Int,
         unitRanged: Boolean,
@@ -135,12 +267,21 @@ class EquipmentController {
         mpWeight: Int,
         targetAttackElement: Element?,
         targetDefenseElement: Element?,
-        ignoredItems: List<String> = emptyList()
-    ): EquipmentSet {
+        ignoredItems: List<String> = emptyList(),
+        limit: Int = 1,
+        schmiedekunst: Int = 0,
+        statBounds: StatBounds = StatBounds(),
+        pinnedItems: List<String> = emptyList(),
+        baseStats: BaseStats = BaseStats()
+    ): List<RankedEquipmentSet> {
         val wantedWeaponElements = getWantedWeaponElements(unitElement, targetAttackElement)
         val wantedDefenseElements = getWantedDefenseElements(unitElement, targetDefenseElement)
         val maxWeight = unitCarryWeight + MAX_WEIGHT_BONUS
-        var result: EquipmentSet? = null
+        val result = mutableListOf<RankedEquipmentSet>()
+        val bounds = statBounds.bounds
+        // lowest and highest value of every bounded stat among all valid sets, to tell which bound cannot be met
+        val lowest = IntArray(bounds.size) { Int.MAX_VALUE }
+        val highest = IntArray(bounds.size) { Int.MIN_VALUE }
 
         val validWeapons = filterInvalidItems(
             unitElement,
@@ -151,27 +292,28 @@ class EquipmentController {
             wantedWeaponElements,
             rangedRequired,
             rangedForbidden,
-            ignoredItems
+            ignoredItems,
+            pinnedItems
         )
 
         val validHelmets = filterInvalidItems(
             unitElement, maxWeight, unitRanged, schmiedeLevel, 
-            equipmentLists.getAllHelmets(), emptyList(), false, false, ignoredItems
+            equipmentLists.getAllHelmets(), emptyList(), false, false, ignoredItems, pinnedItems
         )
         
         val validArmour = filterInvalidItems(
             unitElement, maxWeight, unitRanged, schmiedeLevel,
-            equipmentLists.getAllArmour(), wantedDefenseElements, false, false, ignoredItems
+            equipmentLists.getAllArmour(), wantedDefenseElements, false, false, ignoredItems, pinnedItems
         )
         
         val validShields = filterInvalidItems(
             unitElement, maxWeight, unitRanged, schmiedeLevel,
-            equipmentLists.getAllShields(), wantedDefenseElements, false, false, ignoredItems
+            equipmentLists.getAllShields(), wantedDefenseElements, false, false, ignoredItems, pinnedItems
         )
         
         val validAccessories = filterInvalidItems(
             unitElement, maxWeight, unitRanged, schmiedeLevel,
-            equipmentLists.getAllAccessories(), emptyList(), false, false, ignoredItems
+            equipmentLists.getAllAccessories(), emptyList(), false, false, ignoredItems, pinnedItems
         )
 
 
@@ -211,11 +353,20 @@ class EquipmentController {
                                     helmet = helmet,
                                     accessory = accessory
                                 )
-                                result = if (
-                                    newSet.getWeightedTotalStats(apWeight, vpWeight, hpWeight, mpWeight) >
-                                    result.getWeightedTotalStats(apWeight, vpWeight, hpWeight, mpWeight)
+                                val totals = bounds.map { newSet.getTotalStat(it.stat, schmiedekunst) }
+                                totals.forEachIndexed { index, total ->
+                                    lowest[index] = minOf(lowest[index], total)
+                                    highest[index] = maxOf(highest[index], total)
+                                }
+                                val withinBounds = bounds.indices.all { bounds[it].isSatisfiedBy(totals[it]) }
+                                val score = newSet.getWeightedTotalStats(
+                                    apWeight, vpWeight, hpWeight, mpWeight, schmiedekunst, baseStats
                                 )
-                                    newSet else result
+                                if (withinBounds && (result.size < limit || score > result.last().score)) {
+                                    val index = result.indexOfFirst { it.score < score }
+                                    result.add(if (index == -1) result.size else index, RankedEquipmentSet(newSet, score))
+                                    if (result.size > limit) result.removeAt(result.lastIndex)
+                                }
                             }
                         }
                     }
@@ -223,7 +374,10 @@ class EquipmentController {
             }
         }
 
-        if (result === null) {
+        if (result.isEmpty() && bounds.isNotEmpty() && highest.first() != Int.MIN_VALUE) {
+            throw getStatBoundException(bounds, lowest, highest)
+        }
+        if (result.isEmpty()) {
             LOG.error(
                 "Unable to find item combination for parameters " +
                         "unitElement:$unitElement " +
@@ -235,11 +389,119 @@ class EquipmentController {
                         "targetAttackElement:$targetAttackElement " +
                         "targetDefenseElement:$targetDefenseElement"
             )
-            throw InvalidItemCombinationException()
+            throw InvalidItemCombinationException(details = mapOf("constraint" to "NO_COMBINATION"))
         }
         return result
     }
 
+    private fun parseItemNames(param: String?): List<String> {
+        return param
+            ?.split(",")
+            ?.map { it.trim() }
+            ?.filter { it.isNotEmpty() }
+            ?: emptyList()
+    }
+
+    /**
+     * Checks that the unit can wear every pinned item and all of them together.
+     */
+    private fun validatePinnedItems(
+        pinnedItems: List<String>,
+        unitElement: Element,
+        unitCarryWeight: Int,
+        unitRanged: Boolean,
+        schmiedeLevel: Int,
+        rangedRequired: Boolean,
+        rangedForbidden: Boolean,
+        targetAttackElement: Element?,
+        targetDefenseElement: Element?
+    ) {
+        val weapons = equipmentLists.getAllWeapons()
+        val defense = equipmentLists.getAllArmour() + equipmentLists.getAllShields()
+        val all = weapons + defense + equipmentLists.getAllHelmets() + equipmentLists.getAllAccessories()
+
+        val pinned = pinnedItems.map { name ->
+            val item = all.find { it.name == name }
+                ?: throw InvalidItemCombinationException(
+                    "$name ist kein bekannter Gegenstand.",
+                    mapOf("constraint" to "UNKNOWN_ITEM", "item" to name)
+                )
+            val wantedElements = when {
+                weapons.contains(item) -> getWantedWeaponElements(unitElement, targetAttackElement)
+                defense.contains(item) -> getWantedDefenseElements(unitElement, targetDefenseElement)
+                else -> emptyList()
+            }
+
+            if (
+                !isValidElementCombination(unitElement, item.element) ||
+                (wantedElements.isNotEmpty() && !wantedElements.contains(item.element))
+            ) {
+                throw ElementMismatchException(
+                    "${item.name} passt nicht zu den gewählten Elementen.",
+                    mapOf("constraint" to "PINNED_ITEM", "item" to item.name)
+                )
+            }
+            if (item.requiredWaffenschmiede > schmiedeLevel) {
+                throw InvalidItemCombinationException(
+                    "${item.name} benötigt Waffenschmiede ${item.requiredWaffenschmiede}, vorhanden ist $schmiedeLevel.",
+                    mapOf("constraint" to "WAFFENSCHMIEDE", "item" to item.name, "required" to item.requiredWaffenschmiede)
+                )
+            }
+            if (item.weight > unitCarryWeight) {
+                throw InvalidItemCombinationException(
+                    "${item.name} ist zu schwer (${item.weight} Kraft, die Einheit hat $unitCarryWeight).",
+                    mapOf("constraint" to "CARRY_WEIGHT", "item" to item.name, "weight" to item.weight)
+                )
+            }
+            if (item.ranged && (!unitRanged || rangedForbidden)) {
+                throw InvalidItemCombinationException(
+                    "${item.name} ist eine FK-Waffe, die die Einheit nicht tragen darf.",
+                    mapOf("constraint" to "RANGED", "item" to item.name)
+                )
+            }
+            if (weapons.contains(item) && rangedRequired && !item.ranged) {
+                throw InvalidItemCombinationException(
+                    "${item.name} ist keine FK-Waffe.",
+                    mapOf("constraint" to "RANGED", "item" to item.name)
+                )
+            }
+            item
+        }
+
+        if (!isValidElementCombination(unitElement, *pinned.map { it.element }.toTypedArray())) {
+            throw ElementMismatchException(
+                "Die Elemente der fixierten Gegenstände passen nicht zusammen.",
+                mapOf("constraint" to "PINNED_ITEMS")
+            )
+        }
+        val weight = pinned.sumOf { it.weight }
+        if (weight > unitCarryWeight) {
+            throw InvalidItemCombinationException(
+                "Die fixierten Gegenstände sind zu schwer ($weight Kraft, die Einheit hat $unitCarryWeight).",
+                mapOf("constraint" to "CARRY_WEIGHT", "weight" to weight)
+            )
+        }
+    }
+
+    // names the first bound no valid set can meet, or all of them if only their combination cannot be met
+    private fun getStatBoundException(bounds: List<StatBound>, lowest: IntArray, highest: IntArray): StatBoundException {
+        bounds.forEachIndexed { index, (stat, min, max) ->
+            if (min !== null && highest[index] < min) {
+                return StatBoundException(
+                    "Mindestwert $min $stat nicht erreichbar, höchstens ${highest[index]} $stat möglich.",
+                    mapOf("constraint" to "MIN", "stat" to stat.name, "bound" to min, "limit" to highest[index])
+                )
+            }
+            if (max !== null && lowest[index] > max) {
+                return StatBoundException(
+                    "Höchstwert $max $stat nicht einhaltbar, mindestens ${lowest[index]} $stat nötig.",
+                    mapOf("constraint" to "MAX", "stat" to stat.name, "bound" to max, "limit" to lowest[index])
+                )
+            }
+        }
+        return StatBoundException(details = mapOf("constraint" to "COMBINED"))
+    }
+
     fun filterInvalidItems(
         unitElement: Element,
         maxWeight: Int,
@@ -249,9 +511,12 @@ class EquipmentController {
         wantedElements: List<Element> = listOf(),
         rangedRequired: Boolean = false,
         rangedForbidden: Boolean = false,
-        ignoredItems: List<String> = emptyList()
+        ignoredItems: List<String> = emptyList(),
+        pinnedItems: List<String> = emptyList()
     ): List<Equipment> {
-        return equipment.filter {
+        // a pinned item replaces all other items of its slot
+        val candidates = equipment.filter { pinnedItems.contains(it.name) }.ifEmpty { equipment }
+        return candidates.filter {
             isValidElementCombination(unitElement, it.element) &&
                     waffenschmiede >= it.requiredWaffenschmiede &&
                     maxWeight >= it.weight &&
@@ -264,6 +529,7 @@ class EquipmentController {
     }
 
     companion object {
+        const val MAX_RANKING_SIZE = 20
         val LOG: Logger = LoggerFactory.getLogger(EquipmentController::class.java)
     }
 }
@@ -0,0 +1,10 @@
+package dl.equipmentCalculator.model
+
+/**
+ * Body of every error response, details name the constraint that failed, e.g. "constraint" and "item".
+ */
+data class ApiError(
+    val code: ErrorCode,
+    val message: String,
+    val details: Map<String, Any> = emptyMap()
+)
@@ -0,0 +1,34 @@
+package dl.equipmentCalculator.model
+
+import kotlin.math.roundToInt
+
+/**
+ * Stats of the unit without equipment. If all of them are given, sets are ranked by their weighted improvement over
+ * them in percent instead of their weighted stats.
+ */
+data class BaseStats(
+        val baseAp: Int? = null,
+        val baseVp: Int? = null,
+        val baseHp: Int? = null,
+        val baseMp: Int? = null) {
+
+    val isComplete: Boolean
+        get() = baseAp !== null && baseVp !== null && baseHp !== null && baseMp !== null
+
+    fun of(stat: Stat): Int = when (stat) {
+        Stat.AP -> baseAp
+        Stat.VP -> baseVp
+        Stat.HP -> baseHp
+        Stat.MP -> baseMp
+    } ?: 0
+
+    /**
+     * Sum of the weighted [values] of one item in percent of the base stats, rounded per item like in the webclient.
+     * Stats the unit does not have are not counted.
+     */
+    fun relativeValue(values: Map<Stat, Int>, weights: Map<Stat, Int>): Int =
+            Stat.values().sumOf { stat ->
+                val base = of(stat)
+                if (base > 0) (values.getValue(stat) * weights.getValue(stat) * 100).toDouble() / base else 0.0
+            }.roundToInt()
+}
@@ -18,6 +18,13 @@ data class Equipment(
 
     companion object {
         val MAX_WEIGHT_BONUS = 57;
+        const val SK_FACTOR = 0.025
+
+        // value including the Schmiedekunst bonus, negative values are not increased
+        fun totalValue(value: Int, schmiedekunst: Int): Int {
+            if (value <= 0) return value
+            return value + Math.round(schmiedekunst * SK_FACTOR * value).toInt()
+        }
 
         fun validWeightAndElements(
                 unitElement: Element,
@@ -1,5 +1,7 @@
 package dl.equipmentCalculator.model
 
+import dl.equipmentCalculator.model.Equipment.Companion.totalValue
+
 data class EquipmentSet(
         val weapon: Equipment,
         val shield: Equipment,
@@ -7,26 +9,41 @@ data class EquipmentSet(
         val armour: Equipment,
         val accessory: Equipment) {
 
+    private fun items(): List<Equipment> = listOf(weapon, shield, helmet, armour, accessory)
+
     companion object {
         fun EquipmentSet?.getWeightedTotalStats(
                 apWeight: Int = 0,
                 vpWeight: Int = 0,
                 hpWeight: Int = 0,
-                mpWeight: Int = 0
+                mpWeight: Int = 0,
+                schmiedekunst: Int = 0,
+                baseStats: BaseStats = BaseStats()
         ): Int {
             if (this === null) return 0
-            return if (apWeight + vpWeight + hpWeight + mpWeight == 0)
+            val unweighted = apWeight + vpWeight + hpWeight + mpWeight == 0
+            if (baseStats.isComplete) {
+                val weights = mapOf(
+                        Stat.AP to if (unweighted) 1 else apWeight,
+                        Stat.VP to if (unweighted) 1 else vpWeight,
+                        Stat.HP to if (unweighted) 1 else hpWeight,
+                        Stat.MP to if (unweighted) 1 else mpWeight
+                )
+                return items().sumOf { item ->
+                    val values = Stat.values().associateWith { totalValue(it.of(item), schmiedekunst) }
+                    baseStats.relativeValue(values, weights)
+                }
+            }
+            val ap = getTotalStat(Stat.AP, schmiedekunst)
+            val vp = getTotalStat(Stat.VP, schmiedekunst)
+            val hp = getTotalStat(Stat.HP, schmiedekunst)
+            val mp = getTotalStat(Stat.MP, schmiedekunst)
+            return if (unweighted)
                 ap + vp + hp + mp else
                 ap * apWeight + vp * vpWeight + hp * hpWeight + mp * mpWeight
         }
 
-        private val EquipmentSet.ap: Int
-            get() = weapon.ap + shield.ap + helmet.ap + armour.ap + accessory.ap
-        private val EquipmentSet.vp: Int
-            get() = weapon.vp + shield.vp + helmet.vp + armour.vp + accessory.vp
-        private val EquipmentSet.hp: Int
-            get() = weapon.hp + shield.hp + helmet.hp + armour.hp + accessory.hp
-        private val EquipmentSet.mp: Int
-            get() = weapon.mp + shield.mp + helmet.mp + armour.mp + accessory.mp
+        fun EquipmentSet.getTotalStat(stat: Stat, schmiedekunst: Int = 0): Int =
+                items().sumOf { totalValue(stat.of(it), schmiedekunst) }
     }
 }
@@ -0,0 +1,13 @@
+package dl.equipmentCalculator.model
+
+/**
+ * Machine-readable error codes, the webclient has the same values in its ErrorType enum.
+ */
+enum class ErrorCode {
+    ELEMENT_MISMATCH,
+    INVALID_UNIT,
+    INVALID_ITEM_COMBINATION,
+    INVALID_INPUT,
+    STAT_BOUND,
+    INTERNAL_ERROR,
+}
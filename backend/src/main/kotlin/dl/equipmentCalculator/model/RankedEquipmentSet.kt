@@ -0,0 +1,5 @@
+package dl.equipmentCalculator.model
+
+data class RankedEquipmentSet(
+        val set: EquipmentSet,
+        val score: Int)
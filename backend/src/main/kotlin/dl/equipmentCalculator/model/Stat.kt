@@ -0,0 +1,12 @@
+package dl.equipmentCalculator.model
+
+enum class Stat {
+    AP, VP, HP, MP;
+
+    fun of(equipment: Equipment): Int = when (this) {
+        AP -> equipment.ap
+        VP -> equipment.vp
+        HP -> equipment.hp
+        MP -> equipment.mp
+    }
+}
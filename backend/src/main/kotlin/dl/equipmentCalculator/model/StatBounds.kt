@@ -0,0 +1,27 @@
+package dl.equipmentCalculator.model
+
+data class StatBound(val stat: Stat, val min: Int?, val max: Int?) {
+    fun isSatisfiedBy(value: Int): Boolean = (min === null || value >= min) && (max === null || value <= max)
+}
+
+/**
+ * Optional lower and upper bounds of the total stats of a set, including the Schmiedekunst bonus.
+ */
+data class StatBounds(
+        val minAp: Int? = null,
+        val maxAp: Int? = null,
+        val minVp: Int? = null,
+        val maxVp: Int? = null,
+        val minHp: Int? = null,
+        val maxHp: Int? = null,
+        val minMp: Int? = null,
+        val maxMp: Int? = null) {
+
+    val bounds: List<StatBound>
+        get() = listOf(
+                StatBound(Stat.AP, minAp, maxAp),
+                StatBound(Stat.VP, minVp, maxVp),
+                StatBound(Stat.HP, minHp, maxHp),
+                StatBound(Stat.MP, minMp, maxMp)
+        ).filter { it.min !== null || it.max !== null }
+}
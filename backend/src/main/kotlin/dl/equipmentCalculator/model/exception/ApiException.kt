@@ -0,0 +1,12 @@
+package dl.equipmentCalculator.model.exception
+
+import dl.equipmentCalculator.model.ApiError
+import dl.equipmentCalculator.model.ErrorCode
+
+abstract class ApiException(
+    val code: ErrorCode,
+    message: String,
+    val details: Map<String, Any>
+) : RuntimeException(message) {
+    fun toApiError() = ApiError(code, message ?: code.name, details)
+}
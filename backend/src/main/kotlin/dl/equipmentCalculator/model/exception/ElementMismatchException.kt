@@ -1,5 +1,7 @@
 package dl.equipmentCalculator.model.exception
 
+import dl.equipmentCalculator.model.ErrorCode
 import dl.equipmentCalculator.model.ExceptionType.Companion.ELEMENT_MISMATCH
 
-class ElementMismatchException(message: String = ELEMENT_MISMATCH) : RuntimeException(message)
+class ElementMismatchException(message: String = ELEMENT_MISMATCH, details: Map<String, Any> = emptyMap()) :
+    ApiException(ErrorCode.ELEMENT_MISMATCH, message, details)
@@ -0,0 +1,6 @@
+package dl.equipmentCalculator.model.exception
+
+import dl.equipmentCalculator.model.ErrorCode
+
+class InvalidInputException(message: String, details: Map<String, Any> = emptyMap()) :
+    ApiException(ErrorCode.INVALID_INPUT, message, details)
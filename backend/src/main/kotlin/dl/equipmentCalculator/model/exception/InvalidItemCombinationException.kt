@@ -1,5 +1,9 @@
 package dl.equipmentCalculator.model.exception
 
+import dl.equipmentCalculator.model.ErrorCode
 import dl.equipmentCalculator.model.ExceptionType.Companion.INVALID_ITEM_COMBINATION
 
-class InvalidItemCombinationException(message: String = INVALID_ITEM_COMBINATION) : RuntimeException(message)
+class InvalidItemCombinationException(
+    message: String = INVALID_ITEM_COMBINATION,
+    details: Map<String, Any> = emptyMap()
+) : ApiException(ErrorCode.INVALID_ITEM_COMBINATION, message, details)
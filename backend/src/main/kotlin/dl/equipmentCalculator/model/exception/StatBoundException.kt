@@ -0,0 +1,7 @@
+package dl.equipmentCalculator.model.exception
+
+import dl.equipmentCalculator.model.ErrorCode
+import dl.equipmentCalculator.model.ExceptionType.Companion.STAT_BOUNDS
+
+class StatBoundException(message: String = STAT_BOUNDS, details: Map<String, Any> = emptyMap()) :
+    ApiException(ErrorCode.STAT_BOUND, message, details)
@@ -0,0 +1,158 @@
+package dl.equipmentCalculator.controller
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import dl.equipmentCalculator.model.Element
+import dl.equipmentCalculator.model.Equipment
+import dl.equipmentCalculator.model.EquipmentLists
+import dl.equipmentCalculator.service.EquipmentService
+import org.hamcrest.Matchers.equalTo
+import org.hamcrest.Matchers.everyItem
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import org.mockito.BDDMockito.given
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.boot.test.mock.mockito.MockBean
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.get
+
+/**
+ * Calculates with a few fixed items instead of the loaded equipment data, so the expected sets don't change with it.
+ */
+@SpringBootTest
+@AutoConfigureMockMvc
+class EquipmentControllerTests {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var objectMapper: ObjectMapper
+
+    @MockBean
+    private lateinit var equipmentLists: EquipmentLists
+
+    // keeps the application from loading the equipment data
+    @MockBean
+    private lateinit var equipmentService: EquipmentService
+
+    @BeforeEach
+    fun setUp() {
+        given(equipmentLists.getAllWeapons()).willReturn(
+            listOf(NOTHING, item("Schwert", ap = 10, weight = 5), item("Axt", ap = 6, weight = 3))
+        )
+        given(equipmentLists.getAllShields()).willReturn(listOf(NOTHING, item("Holzschild", vp = 4, weight = 2)))
+        given(equipmentLists.getAllHelmets()).willReturn(listOf(NOTHING, item("Helm", vp = 2, weight = 1)))
+        given(equipmentLists.getAllArmour()).willReturn(listOf(NOTHING))
+        given(equipmentLists.getAllAccessories()).willReturn(listOf(NOTHING, item("Ring", ap = 3)))
+    }
+
+    @Test
+    fun rankingIsOrderedByScore() {
+        val response = mockMvc.get("/api/ranking") {
+            param("unitCarryWeight", "10")
+            param("apWeight", "1")
+            param("limit", "5")
+        }.andExpect {
+            status { isOk() }
+            jsonPath("$.length()") { value(5) }
+            jsonPath("$[0].score") { value(13) }
+            jsonPath("$[0].set.weapon.name") { value("Schwert") }
+            jsonPath("$[0].set.accessory.name") { value("Ring") }
+        }.andReturn().response.contentAsString
+
+        val scores = objectMapper.readTree(response).map { it["score"].asInt() }
+        assertEquals(scores.sortedDescending(), scores)
+    }
+
+    @Test
+    fun unreachableMinimumNamesTheStatBound() {
+        mockMvc.get("/api/ranking") {
+            param("unitCarryWeight", "10")
+            param("apWeight", "1")
+            param("minVp", "100")
+        }.andExpect {
+            status { isBadRequest() }
+            jsonPath("$.code") { value("STAT_BOUND") }
+            jsonPath("$.details.constraint") { value("MIN") }
+            jsonPath("$.details.stat") { value("VP") }
+            jsonPath("$.details.bound") { value(100) }
+            jsonPath("$.details.limit") { value(6) }
+        }
+    }
+
+    @Test
+    fun everyRankedSetContainsThePinnedItem() {
+        mockMvc.get("/api/ranking") {
+            param("unitCarryWeight", "10")
+            param("apWeight", "1")
+            param("pinnedItems", "Axt")
+        }.andExpect {
+            status { isOk() }
+            jsonPath("$[*].set.weapon.name") { value(everyItem(equalTo("Axt"))) }
+            jsonPath("$[0].score") { value(9) }
+        }
+    }
+
+    @Test
+    fun pinnedItemTheUnitCannotCarryIsRejected() {
+        mockMvc.get("/api/ranking") {
+            param("unitCarryWeight", "4")
+            param("apWeight", "1")
+            param("pinnedItems", "Schwert")
+        }.andExpect {
+            status { isBadRequest() }
+            jsonPath("$.code") { value("INVALID_ITEM_COMBINATION") }
+            jsonPath("$.details.constraint") { value("CARRY_WEIGHT") }
+            jsonPath("$.details.item") { value("Schwert") }
+        }
+    }
+
+    @Test
+    fun unknownPinnedItemIsRejected() {
+        mockMvc.get("/api/ranking") {
+            param("unitCarryWeight", "10")
+            param("apWeight", "1")
+            param("pinnedItems", "Excalibur")
+        }.andExpect {
+            status { isBadRequest() }
+            jsonPath("$.code") { value("INVALID_ITEM_COMBINATION") }
+            jsonPath("$.details.constraint") { value("UNKNOWN_ITEM") }
+            jsonPath("$.details.item") { value("Excalibur") }
+        }
+    }
+
+    @Test
+    fun singleSetIsTheBestOfTheRanking() {
+        mockMvc.get("/api") {
+            param("unitCarryWeight", "10")
+            param("apWeight", "1")
+        }.andExpect {
+            status { isOk() }
+            jsonPath("$.weapon.name") { value("Schwert") }
+            jsonPath("$.accessory.name") { value("Ring") }
+        }
+    }
+
+    @Test
+    fun singleSetWithoutPositiveScoreIsRejected() {
+        // no item has MP, so every set scores 0
+        mockMvc.get("/api") {
+            param("unitCarryWeight", "10")
+            param("mpWeight", "1")
+        }.andExpect {
+            status { isBadRequest() }
+            jsonPath("$.code") { value("INVALID_ITEM_COMBINATION") }
+            jsonPath("$.details.constraint") { value("NO_COMBINATION") }
+        }
+    }
+
+    companion object {
+        private val NOTHING = item("besser nix")
+
+        private fun item(name: String, ap: Int = 0, vp: Int = 0, weight: Int = 0) =
+            Equipment(ap, vp, 0, 0, weight, false, Element.NONE, 0, name)
+    }
+}
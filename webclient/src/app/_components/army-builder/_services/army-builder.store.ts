@@ -0,0 +1,269 @@
+import { Injectable } from '@angular/core';
+import {
+    asyncScheduler,
+    BehaviorSubject,
+    catchError,
+    concatMap,
+    forkJoin,
+    map,
+    mergeMap,
+    Observable,
+    observeOn,
+    of,
+    startWith,
+    Subject,
+    take,
+    tap,
+} from 'rxjs';
+
+import { Action } from '../../../_types/action';
+import { Error, isError } from '../../../_types/error';
+import { DEFAULT_WEIGHTINGS, DefaultWeighting, toDefaultRequest } from '../../../_types/default-weighting';
+import { ArmyPlan } from '../../../_types/army-plan';
+import { InvalidUnitError } from '../../../_types/invalid-unit-error';
+import { InternalError } from '../../../_types/internal-error';
+import { EquipmentService } from '../../../_services/equipment.service';
+import { StorageService } from '../../../_services/storage.service';
+import { UnitService } from '../../../_services/unit.service';
+import { ArmyBuilderState, errorState, IDLE_STATE, LOADING_STATE } from '../_types/army-builder-state';
+import { PlannedUnit, toArmyPlan } from '../_types/planned-unit';
+import {
+    AddPlannedUnit,
+    LoadArmyPlan,
+    RemovePlannedUnit,
+    UpdateKpBudget,
+    UpdatePlannedUnitCount,
+    UpdatePlannedUnitWeighting,
+} from '../_types/army-builder-action';
+
+@Injectable()
+export class ArmyBuilderStore {
+    state$: Observable<ArmyBuilderState>;
+    private _state$: BehaviorSubject<ArmyBuilderState>;
+    private _actions$: Subject<Action> = new Subject<Action>();
+
+    constructor(
+        private equipmentService: EquipmentService,
+        private storageService: StorageService,
+        private unitService: UnitService,
+    ) {
+        const initialState = new ArmyBuilderState();
+        initialState.waffenschmiede = storageService.getWaffenschmiede();
+        initialState.schmiedekunst = storageService.getSchmiedekunst();
+
+        this._state$ = new BehaviorSubject<ArmyBuilderState>(initialState);
+        this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
+        this._actions$
+            .pipe(
+                observeOn(asyncScheduler),
+                concatMap((action) => this.handleAction(action)),
+            )
+            .subscribe((stateUpdate) => this.updateState(stateUpdate));
+
+        this.dispatch(new LoadArmyPlan(storageService.getArmyPlan()));
+    }
+
+    get state(): ArmyBuilderState {
+        return this._state$.getValue();
+    }
+
+    updateKpBudget(kpBudget: number): void {
+        this.dispatch(new UpdateKpBudget(kpBudget));
+    }
+
+    addUnit(unitName: string, count: number): void {
+        this.dispatch(new AddPlannedUnit(unitName, count));
+    }
+
+    removeUnit(index: number): void {
+        this.dispatch(new RemovePlannedUnit(index));
+    }
+
+    updateUnitCount(index: number, count: number): void {
+        this.dispatch(new UpdatePlannedUnitCount(index, count));
+    }
+
+    updateUnitWeighting(index: number, weighting: DefaultWeighting): void {
+        this.dispatch(new UpdatePlannedUnitWeighting(index, weighting));
+    }
+
+    private dispatch(...actions: Array<Action>): void {
+        actions.forEach((action) => this._actions$.next(action));
+    }
+
+    private updateState(update: Partial<ArmyBuilderState>): void {
+        this.setState({ ...this.state, ...update });
+    }
+
+    private setState(state: ArmyBuilderState): void {
+        this._state$.next(state);
+    }
+
+    private handleAction(action: Action): Observable<Partial<ArmyBuilderState>> {
+        if (action instanceof LoadArmyPlan) return this.onLoadArmyPlan(action);
+        if (action instanceof UpdateKpBudget) return this.onUpdateKpBudget(action);
+        if (action instanceof AddPlannedUnit) return this.onAddPlannedUnit(action);
+        if (action instanceof RemovePlannedUnit) return this.onRemovePlannedUnit(action);
+        if (action instanceof UpdatePlannedUnitCount) return this.onUpdatePlannedUnitCount(action);
+        if (action instanceof UpdatePlannedUnitWeighting) return this.onUpdatePlannedUnitWeighting(action);
+
+        return of(IDLE_STATE);
+    }
+
+    private errorState(error: Error): Observable<Partial<ArmyBuilderState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({ ...state, ...errorState(error) })),
+        );
+    }
+
+    private savePlan(update: Partial<ArmyBuilderState>): void {
+        const { kpBudget, units } = { ...this.state, ...update };
+        this.storageService.saveArmyPlan(toArmyPlan(kpBudget, units));
+    }
+
+    // units that are no longer known are dropped from the saved plan
+    private onLoadArmyPlan(action: LoadArmyPlan): Observable<Partial<ArmyBuilderState>> {
+        const { kpBudget, entries }: ArmyPlan = action.armyPlan;
+        return this.unitService.getUnits().pipe(
+            take(1),
+            mergeMap((allUnits) => {
+                const units = entries.flatMap(({ unitName, count, weighting }) => {
+                    const unit = allUnits.get(unitName);
+                    if (!unit) return [];
+                    const defaultWeighting = DEFAULT_WEIGHTINGS.find(({ name }) => name === weighting);
+                    return [{ unit, count, weighting: defaultWeighting ?? DEFAULT_WEIGHTINGS[0] }];
+                });
+                return this.calculateSets(units).pipe(map((update) => ({ kpBudget, ...update })));
+            }),
+        );
+    }
+
+    private onUpdateKpBudget(action: UpdateKpBudget): Observable<Partial<ArmyBuilderState>> {
+        return of({ kpBudget: action.kpBudget, ...IDLE_STATE }).pipe(tap((update) => this.savePlan(update)));
+    }
+
+    // a unit that is already part of the plan gets more units instead of a second entry
+    private onAddPlannedUnit(action: AddPlannedUnit): Observable<Partial<ArmyBuilderState>> {
+        const { unitName, count } = action;
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                const index = state.units.findIndex(({ unit }) => unit.name === unitName);
+                if (index !== -1) {
+                    return this.updateUnit(state, index, { count: state.units[index].count + count });
+                }
+
+                return this.unitService.getUnitByName(unitName).pipe(
+                    take(1),
+                    mergeMap((unit) =>
+                        unit
+                            ? this.calculateSets([...state.units, { unit, count, weighting: DEFAULT_WEIGHTINGS[0] }])
+                            : this.errorState(new InvalidUnitError(`${unitName} ist unbekannt.`)),
+                    ),
+                );
+            }),
+            tap((update) => this.savePlan(update)),
+        );
+    }
+
+    private onRemovePlannedUnit(action: RemovePlannedUnit): Observable<Partial<ArmyBuilderState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                units: state.units.filter((_, index) => index !== action.index),
+                ...IDLE_STATE,
+            })),
+            tap((update) => this.savePlan(update)),
+        );
+    }
+
+    private onUpdatePlannedUnitCount(action: UpdatePlannedUnitCount): Observable<Partial<ArmyBuilderState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => this.updateUnit(state, action.index, { count: action.count })),
+            tap((update) => this.savePlan(update)),
+        );
+    }
+
+    // the set of the old weighting is dropped and calculated again
+    private onUpdatePlannedUnitWeighting(action: UpdatePlannedUnitWeighting): Observable<Partial<ArmyBuilderState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                this.updateUnit(state, action.index, {
+                    weighting: action.weighting,
+                    best: undefined,
+                    error: undefined,
+                }),
+            ),
+            tap((update) => this.savePlan(update)),
+        );
+    }
+
+    private updateUnit(
+        state: ArmyBuilderState,
+        index: number,
+        update: Partial<PlannedUnit>,
+    ): Observable<Partial<ArmyBuilderState>> {
+        return this.calculateSets(
+            state.units.map((planned, plannedIndex) => (plannedIndex === index ? { ...planned, ...update } : planned)),
+        );
+    }
+
+    // Calculates the sets the units do not have yet, the sets are cached by the EquipmentService. A unit without a
+    // valid set keeps its error and doesn't block the others.
+    private calculateSets(units: Array<PlannedUnit>): Observable<Partial<ArmyBuilderState>> {
+        if (units.every(({ best, error }) => best || error)) return of({ units, ...IDLE_STATE });
+
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                forkJoin(
+                    units.map((planned) =>
+                        planned.best || planned.error
+                            ? of(planned)
+                            : this.equipmentService
+                                  .getEquipment(
+                                      toDefaultRequest(
+                                          planned.unit,
+                                          planned.weighting,
+                                          state.waffenschmiede,
+                                          state.schmiedekunst,
+                                      ),
+                                  )
+                                  .pipe(
+                                      take(1),
+                                      map(({ sets }): PlannedUnit => ({ ...planned, best: sets[0] })),
+                                      catchError((error) => {
+                                          console.error(`Error calculating the set of ${planned.unit.name}:`, error);
+                                          return of({
+                                              ...planned,
+                                              error: isError(error)
+                                                  ? error
+                                                  : new InternalError(
+                                                        'Das Set der Einheit konnte nicht berechnet werden.',
+                                                    ),
+                                          });
+                                      }),
+                                  ),
+                    ),
+                ).pipe(
+                    map((plannedUnits) => ({ units: plannedUnits, ...IDLE_STATE })),
+                    startWith({ units, ...LOADING_STATE }),
+                    catchError((error) => {
+                        console.error('Error calculating sets of the army plan:', error);
+                        return of({
+                            units,
+                            ...errorState(
+                                isError(error)
+                                    ? error
+                                    : new InternalError('Die Sets der Armee konnten nicht berechnet werden.'),
+                            ),
+                        });
+                    }),
+                ),
+            ),
+        );
+    }
+}
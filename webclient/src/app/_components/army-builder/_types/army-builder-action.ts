@@ -0,0 +1,48 @@
+import { Action } from '../../../_types/action';
+import { ArmyPlan } from '../../../_types/army-plan';
+import { DefaultWeighting } from '../../../_types/default-weighting';
+
+export class LoadArmyPlan extends Action {
+    constructor(public armyPlan: ArmyPlan) {
+        super();
+    }
+}
+
+export class UpdateKpBudget extends Action {
+    constructor(public kpBudget: number) {
+        super();
+    }
+}
+
+export class AddPlannedUnit extends Action {
+    constructor(
+        public unitName: string,
+        public count: number,
+    ) {
+        super();
+    }
+}
+
+export class RemovePlannedUnit extends Action {
+    constructor(public index: number) {
+        super();
+    }
+}
+
+export class UpdatePlannedUnitCount extends Action {
+    constructor(
+        public index: number,
+        public count: number,
+    ) {
+        super();
+    }
+}
+
+export class UpdatePlannedUnitWeighting extends Action {
+    constructor(
+        public index: number,
+        public weighting: DefaultWeighting,
+    ) {
+        super();
+    }
+}
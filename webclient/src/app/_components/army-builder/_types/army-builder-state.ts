@@ -0,0 +1,30 @@
+import { Error } from '../../../_types/error';
+import { DEFAULT_KP_BUDGET } from '../../../_types/army-plan';
+import { errorStatus, IDLE_STATUS, LOADING_STATUS } from '../../../_types/status';
+
+import { PlannedUnit } from './planned-unit';
+
+export class ArmyBuilderState {
+    // the stored levels, used for the calculated sets
+    waffenschmiede = 0;
+    schmiedekunst = 0;
+
+    kpBudget = DEFAULT_KP_BUDGET;
+    units: Array<PlannedUnit> = [];
+
+    status = IDLE_STATUS;
+}
+
+export const IDLE_STATE: Partial<ArmyBuilderState> = {
+    status: IDLE_STATUS,
+};
+
+export const LOADING_STATE: Partial<ArmyBuilderState> = {
+    status: LOADING_STATUS,
+};
+
+export function errorState(error: Error): Partial<ArmyBuilderState> {
+    return {
+        status: errorStatus(error),
+    };
+}
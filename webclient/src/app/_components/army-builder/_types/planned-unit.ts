@@ -0,0 +1,99 @@
+import { Unit } from '../../../_types/unit';
+import { Error } from '../../../_types/error';
+import { Stat, stats } from '../../../_types/stat';
+import { baseStat, getBaseStats } from '../../../_types/base-stats';
+import { DefaultWeighting } from '../../../_types/default-weighting';
+import { RankedEquipmentSet } from '../../../_types/ranked-equipment-set';
+import { totalStat } from '../../../_types/equipment-set';
+import { ArmyPlan } from '../../../_types/army-plan';
+import { SLOT_NAMES } from '../../../_types/slot-names';
+import { equipmentSlots, getSetKey } from '../../../_types/equipment-slot';
+
+export type StatTotals = Record<Stat, number>;
+
+/**
+ * A unit type of the army plan with the number of units and the best set for its weighting.
+ */
+export interface PlannedUnit {
+    unit: Unit;
+    count: number;
+    weighting: DefaultWeighting;
+    best?: RankedEquipmentSet;
+    // why the unit has no set, e.g. no valid set exists for its weighting
+    error?: Error;
+}
+
+export function kpSpent(units: Array<PlannedUnit>): number {
+    return units.reduce((acc, curr) => acc + curr.count * curr.unit.kp, 0);
+}
+
+// stats of all units of the type with their set, the base stats if the set is not calculated yet
+export function combinedStats(planned: PlannedUnit, schmiedekunst: number): StatTotals {
+    const baseStats = getBaseStats(planned.unit);
+    return Object.fromEntries(
+        stats.map((stat: Stat) => [
+            stat,
+            planned.count * (baseStat(baseStats, stat) + totalStat(planned.best?.set, stat, schmiedekunst)),
+        ]),
+    ) as StatTotals;
+}
+
+export function armyStats(units: Array<PlannedUnit>, schmiedekunst: number): StatTotals {
+    return units
+        .map((planned) => combinedStats(planned, schmiedekunst))
+        .reduce(
+            (acc, curr) => Object.fromEntries(stats.map((stat: Stat) => [stat, acc[stat] + curr[stat]])) as StatTotals,
+            { [Stat.AP]: 0, [Stat.VP]: 0, [Stat.HP]: 0, [Stat.MP]: 0 },
+        );
+}
+
+export function toArmyPlan(kpBudget: number, units: Array<PlannedUnit>): ArmyPlan {
+    return {
+        kpBudget,
+        entries: units.map(({ unit, count, weighting }) => ({
+            unitName: unit.name,
+            count,
+            weighting: weighting.name,
+        })),
+    };
+}
+
+// one line per unit type and one for the whole army, separated by semicolons as expected by German spreadsheets,
+// the byte order mark makes Excel read the umlauts as UTF-8
+export function getArmyCsv(units: Array<PlannedUnit>, schmiedekunst: number): string {
+    const header = [
+        'Einheit',
+        'Anzahl',
+        'KP',
+        'Gewichtung',
+        ...equipmentSlots.map((slot) => SLOT_NAMES[slot]),
+        ...stats,
+    ];
+    const lines = units.map((planned) => {
+        const totals = combinedStats(planned, schmiedekunst);
+        return [
+            planned.unit.name,
+            planned.count,
+            planned.count * planned.unit.kp,
+            planned.weighting.name,
+            ...equipmentSlots.map((slot) => planned.best?.set[getSetKey(slot)].name ?? ''),
+            ...stats.map((stat: Stat) => totals[stat]),
+        ];
+    });
+    const totals = armyStats(units, schmiedekunst);
+    const sum = [
+        'Summe',
+        units.reduce((acc, curr) => acc + curr.count, 0),
+        kpSpent(units),
+        '',
+        ...equipmentSlots.map(() => ''),
+        ...stats.map((stat: Stat) => totals[stat]),
+    ];
+    return '\uFEFF' + [header, ...lines, sum].map((line) => line.map(toCsvField).join(';')).join('\n');
+}
+
+// names with a separator, a quote or a line break are quoted
+function toCsvField(value: string | number): string {
+    const field = `${value}`;
+    return /[;"\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
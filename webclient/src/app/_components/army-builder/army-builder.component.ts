@@ -0,0 +1,110 @@
+import { Component, OnDestroy, OnInit, Self } from '@angular/core';
+import { distinctUntilChanged, filter, map } from 'rxjs';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { CompositeSubscription } from '../../_types/composite-subscription';
+import { CUSTOM_UNIT_NAME } from '../../_types/unit';
+import { DEFAULT_WEIGHTINGS, DefaultWeighting } from '../../_types/default-weighting';
+import { Stat, stats } from '../../_types/stat';
+import { equipmentSlots, getSetKey } from '../../_types/equipment-slot';
+import { UnitService } from '../../_services/unit.service';
+import { downloadFile } from '../../_util/download';
+
+import { ArmyBuilderStore } from './_services/army-builder.store';
+import { armyStats, combinedStats, getArmyCsv, kpSpent, PlannedUnit, StatTotals } from './_types/planned-unit';
+
+@Component({
+    selector: 'app-army-builder',
+    templateUrl: './army-builder.component.html',
+    styleUrls: ['./army-builder.component.scss'],
+    providers: [ArmyBuilderStore],
+})
+export class ArmyBuilderComponent implements OnInit, OnDestroy {
+    readonly DEFAULT_WEIGHTINGS = DEFAULT_WEIGHTINGS;
+    readonly stats: Array<Stat> = stats;
+
+    allUnits: string[] = [];
+    selectedUnit?: string;
+    selectedCount = 1;
+
+    subscriptions = new CompositeSubscription();
+
+    kpSpent = kpSpent;
+    combinedStats = combinedStats;
+    armyStats = armyStats;
+
+    constructor(
+        @Self() public store: ArmyBuilderStore,
+        private unitService: UnitService,
+        private snackbar: MatSnackBar,
+    ) {}
+
+    ngOnInit(): void {
+        this.subscriptions.add(
+            this.unitService.getUnits().subscribe((units) => {
+                // the custom unit has neither Kommandopunkte nor a carry weight
+                this.allUnits = [...units.keys()].filter((name) => name !== CUSTOM_UNIT_NAME);
+            }),
+        );
+        this.subscriptions.add(
+            this.store.state$
+                .pipe(
+                    map(({ status }) => status),
+                    distinctUntilChanged(),
+                    filter((status) => !!status.error),
+                )
+                .subscribe((status) => {
+                    this.snackbar.open(`Da ist was schief gegangen: ${status.error?.message}`, '', { duration: 5000 });
+                }),
+        );
+    }
+
+    ngOnDestroy(): void {
+        this.subscriptions.unsubscribe();
+    }
+
+    onKpBudgetChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        if (!isNaN(intValue) && intValue >= 0) this.store.updateKpBudget(intValue);
+    }
+
+    onSelectedCountChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        if (!isNaN(intValue) && intValue > 0) this.selectedCount = intValue;
+    }
+
+    addUnit(): void {
+        if (this.selectedUnit) this.store.addUnit(this.selectedUnit, this.selectedCount);
+    }
+
+    removeUnit(index: number): void {
+        this.store.removeUnit(index);
+    }
+
+    onCountChanged(index: number, value: string): void {
+        const intValue = Number.parseInt(value);
+        if (!isNaN(intValue) && intValue > 0) this.store.updateUnitCount(index, intValue);
+    }
+
+    onWeightingChanged(index: number, weighting: DefaultWeighting): void {
+        this.store.updateUnitWeighting(index, weighting);
+    }
+
+    // the weightings are constants, so they can be compared by name
+    compareWeightings(first?: DefaultWeighting, second?: DefaultWeighting): boolean {
+        return first?.name === second?.name;
+    }
+
+    setItems(planned: PlannedUnit): string {
+        const set = planned.best?.set;
+        return set ? equipmentSlots.map((slot) => set[getSetKey(slot)].name).join(', ') : '';
+    }
+
+    getStat(totals: StatTotals, stat: Stat): number {
+        return totals[stat];
+    }
+
+    exportCsv(units: Array<PlannedUnit>, schmiedekunst: number): void {
+        downloadFile('armee.csv', getArmyCsv(units, schmiedekunst), 'text/csv;charset=utf-8');
+    }
+}
@@ -0,0 +1,70 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { UnitService } from '../../../../_services/unit.service';
+import { CUSTOM_UNIT_NAME } from '../../../../_types/unit';
+import { StatWeights } from '../../../../_types/stat-weights';
+import { InvalidInputError } from '../../../../_types/invalid-input-error';
+import { ArmyUnit } from '../../_types/army-unit';
+
+@Component({
+    selector: 'app-army-unit-list',
+    templateUrl: './army-unit-list.component.html',
+    styleUrls: ['./army-unit-list.component.scss'],
+})
+export class ArmyUnitListComponent implements OnInit, OnDestroy {
+    @Input() units: Array<ArmyUnit> = [];
+    @Output() unitAdded = new EventEmitter<string>();
+    @Output() unitRemoved = new EventEmitter<number>();
+    @Output() weightsChanged = new EventEmitter<{ index: number; weights: StatWeights }>();
+
+    readonly weightKeys: Array<{ key: keyof StatWeights; label: string }> = [
+        { key: 'apWeight', label: 'AP' },
+        { key: 'vpWeight', label: 'VP' },
+        { key: 'hpWeight', label: 'HP' },
+        { key: 'mpWeight', label: 'MP' },
+    ];
+
+    allUnits: string[] = [];
+    selectedUnit?: string;
+    private unitsSubscription?: Subscription;
+
+    constructor(private unitService: UnitService) {}
+
+    ngOnInit(): void {
+        this.unitsSubscription = this.unitService.getUnits().subscribe((units) => {
+            // the custom unit has no carry weight, so it cannot be equipped
+            this.allUnits = [...units.keys()].filter((name) => name !== CUSTOM_UNIT_NAME);
+        });
+    }
+
+    ngOnDestroy(): void {
+        this.unitsSubscription?.unsubscribe();
+    }
+
+    addUnit(): void {
+        if (!this.selectedUnit) return;
+        this.unitAdded.emit(this.selectedUnit);
+    }
+
+    removeUnit(index: number): void {
+        this.unitRemoved.emit(index);
+    }
+
+    onWeightChanged(index: number, key: keyof StatWeights, value: string): void {
+        const intValue = Number.parseInt(value);
+        const unit = this.units[index];
+        isNaN(intValue) || intValue < 0
+            ? this.weightsChanged.error(new InvalidInputError(`${value} is not a valid weight.`))
+            : this.weightsChanged.emit({
+                  index,
+                  weights: {
+                      apWeight: unit.apWeight,
+                      vpWeight: unit.vpWeight,
+                      hpWeight: unit.hpWeight,
+                      mpWeight: unit.mpWeight,
+                      [key]: intValue,
+                  },
+              });
+    }
+}
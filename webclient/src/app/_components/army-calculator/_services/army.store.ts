@@ -0,0 +1,270 @@
+import { Injectable } from '@angular/core';
+import {
+    asyncScheduler,
+    BehaviorSubject,
+    catchError,
+    concatMap,
+    map,
+    mergeMap,
+    Observable,
+    observeOn,
+    of,
+    startWith,
+    Subject,
+    take,
+    tap,
+} from 'rxjs';
+
+import { Action } from '../../../_types/action';
+import { Error, isError } from '../../../_types/error';
+import { Inventory } from '../../../_types/inventory';
+import { StatWeights } from '../../../_types/stat-weights';
+import { ArmyRequest } from '../../../_types/army-request';
+import { toDefaultRequest } from '../../../_types/default-weighting';
+import { InvalidUnitError } from '../../../_types/invalid-unit-error';
+import { InternalError } from '../../../_types/internal-error';
+import { EquipmentService } from '../../../_services/equipment.service';
+import { StorageService } from '../../../_services/storage.service';
+import { UnitService } from '../../../_services/unit.service';
+import { ArmyState, errorState, IDLE_STATE, LOADING_STATE } from '../_types/army-state';
+import {
+    AddArmyUnit,
+    CalculateArmy,
+    RemoveArmyUnit,
+    UpdateArmyUnitWeights,
+    UpdateInventory,
+    UpdateSchmiedekunst,
+    UpdateWaffenschmiede,
+} from '../_types/army-calculator-action';
+
+@Injectable()
+export class ArmyStore {
+    state$: Observable<ArmyState>;
+    private _state$: BehaviorSubject<ArmyState>;
+    private _actions$: Subject<Action> = new Subject<Action>();
+
+    constructor(
+        private equipmentService: EquipmentService,
+        private storageService: StorageService,
+        private unitService: UnitService,
+    ) {
+        // the inventory is shared with the calculator
+        const initialState = new ArmyState();
+        initialState.inventory = storageService.getInventory();
+        this._state$ = new BehaviorSubject<ArmyState>(initialState);
+        this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
+        this._actions$
+            .pipe(
+                observeOn(asyncScheduler),
+                concatMap((action) => this.handleAction(action)),
+            )
+            .subscribe((stateUpdate) => this.updateState(stateUpdate));
+
+        const savedWaffenschmiede = storageService.getWaffenschmiede();
+        const savedSchmiedekunst = storageService.getSchmiedekunst();
+        this.dispatch(new UpdateWaffenschmiede(savedWaffenschmiede), new UpdateSchmiedekunst(savedSchmiedekunst));
+    }
+
+    get state(): ArmyState {
+        return this._state$.getValue();
+    }
+
+    updateWaffenschmiede(waffenschmiede: number): void {
+        this.dispatch(new UpdateWaffenschmiede(waffenschmiede));
+    }
+
+    updateSchmiedekunst(schmiedekunst: number): void {
+        this.dispatch(new UpdateSchmiedekunst(schmiedekunst));
+    }
+
+    addUnit(unitName: string): void {
+        this.dispatch(new AddArmyUnit(unitName));
+    }
+
+    removeUnit(index: number): void {
+        this.dispatch(new RemoveArmyUnit(index));
+    }
+
+    updateUnitWeights(index: number, weights: StatWeights): void {
+        this.dispatch(new UpdateArmyUnitWeights(index, weights));
+    }
+
+    updateInventory(inventory: Inventory): void {
+        this.dispatch(new UpdateInventory(inventory));
+    }
+
+    calculate(): void {
+        this.dispatch(new CalculateArmy());
+    }
+
+    private dispatch(...actions: Array<Action>): void {
+        actions.forEach((action) => this._actions$.next(action));
+    }
+
+    private updateState(update: Partial<ArmyState>): void {
+        this.setState({ ...this.state, ...update });
+    }
+
+    private setState(state: ArmyState): void {
+        this._state$.next(state);
+    }
+
+    private handleAction(action: Action): Observable<Partial<ArmyState>> {
+        if (action instanceof CalculateArmy) return this.onCalculateArmy();
+        if (action instanceof UpdateWaffenschmiede) return this.onUpdateWaffenschmiede(action);
+        if (action instanceof UpdateSchmiedekunst) return this.onUpdateSchmiedekunst(action);
+        if (action instanceof AddArmyUnit) return this.onAddArmyUnit(action);
+        if (action instanceof RemoveArmyUnit) return this.onRemoveArmyUnit(action);
+        if (action instanceof UpdateArmyUnitWeights) return this.onUpdateArmyUnitWeights(action);
+        if (action instanceof UpdateInventory) return this.onUpdateInventory(action);
+
+        return of(IDLE_STATE);
+    }
+
+    private errorState(error: Error): Observable<Partial<ArmyState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({ ...state, ...errorState(error) })),
+        );
+    }
+
+    private onCalculateArmy(): Observable<Partial<ArmyState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                if (state.units.length === 0) return this.errorState(new InvalidUnitError('Keine Einheit ausgewählt.'));
+
+                return this.equipmentService.getArmyAssignment(this.toArmyRequest(state)).pipe(
+                    take(1),
+                    map((results) => ({
+                        results,
+                        ...IDLE_STATE,
+                    })),
+                    startWith(LOADING_STATE),
+                    catchError((error) => {
+                        console.error('Error calculating army:', error);
+                        return of(
+                            errorState(
+                                isError(error)
+                                    ? error
+                                    : new InternalError('Die Armee konnte nicht ausgerüstet werden.'),
+                            ),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    private toArmyRequest(state: ArmyState): ArmyRequest {
+        return {
+            units: state.units.map((unit) => toDefaultRequest(unit, unit, state.waffenschmiede, state.schmiedekunst)),
+            inventory: state.inventory,
+        };
+    }
+
+    private onUpdateWaffenschmiede(action: UpdateWaffenschmiede): Observable<Partial<ArmyState>> {
+        const { waffenschmiede } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                waffenschmiede,
+                results: [],
+            })),
+            tap(() => {
+                this.storageService.saveWaffenschmiede(waffenschmiede);
+            }),
+        );
+    }
+
+    private onUpdateSchmiedekunst(action: UpdateSchmiedekunst): Observable<Partial<ArmyState>> {
+        const { schmiedekunst } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                schmiedekunst,
+                results: [],
+            })),
+            tap(() => {
+                this.storageService.saveSchmiedekunst(schmiedekunst);
+            }),
+        );
+    }
+
+    private onAddArmyUnit(action: AddArmyUnit): Observable<Partial<ArmyState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                this.unitService.getUnitByName(action.unitName).pipe(
+                    take(1),
+                    mergeMap((unit) => {
+                        if (!unit) return this.errorState(new InvalidUnitError(`${action.unitName} ist unbekannt.`));
+
+                        return of({
+                            ...state,
+                            units: [
+                                ...state.units,
+                                {
+                                    name: unit.name,
+                                    carryWeight: unit.carryWeight,
+                                    element: unit.element,
+                                    ranged: unit.ranged,
+                                    apWeight: 0,
+                                    vpWeight: 0,
+                                    hpWeight: 0,
+                                    mpWeight: 0,
+                                },
+                            ],
+                            results: [],
+                            ...IDLE_STATE,
+                        });
+                    }),
+                ),
+            ),
+        );
+    }
+
+    private onRemoveArmyUnit(action: RemoveArmyUnit): Observable<Partial<ArmyState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                units: state.units.filter((_, index) => index !== action.index),
+                results: [],
+                ...IDLE_STATE,
+            })),
+        );
+    }
+
+    private onUpdateArmyUnitWeights(action: UpdateArmyUnitWeights): Observable<Partial<ArmyState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                units: state.units.map((unit, index) =>
+                    index === action.index ? { ...unit, ...action.weights } : unit,
+                ),
+                results: [],
+                ...IDLE_STATE,
+            })),
+        );
+    }
+
+    private onUpdateInventory(action: UpdateInventory): Observable<Partial<ArmyState>> {
+        const { inventory } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                inventory,
+                results: [],
+                ...IDLE_STATE,
+            })),
+            tap(() => {
+                this.storageService.saveInventory(inventory);
+            }),
+        );
+    }
+}
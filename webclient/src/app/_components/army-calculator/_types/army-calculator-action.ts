@@ -0,0 +1,44 @@
+import { Action } from '../../../_types/action';
+import { Inventory } from '../../../_types/inventory';
+import { StatWeights } from '../../../_types/stat-weights';
+
+export class UpdateWaffenschmiede extends Action {
+    constructor(public waffenschmiede: number) {
+        super();
+    }
+}
+
+export class UpdateSchmiedekunst extends Action {
+    constructor(public schmiedekunst: number) {
+        super();
+    }
+}
+
+export class AddArmyUnit extends Action {
+    constructor(public unitName: string) {
+        super();
+    }
+}
+
+export class RemoveArmyUnit extends Action {
+    constructor(public index: number) {
+        super();
+    }
+}
+
+export class UpdateArmyUnitWeights extends Action {
+    constructor(
+        public index: number,
+        public weights: StatWeights,
+    ) {
+        super();
+    }
+}
+
+export class UpdateInventory extends Action {
+    constructor(public inventory: Inventory) {
+        super();
+    }
+}
+
+export class CalculateArmy extends Action {}
@@ -0,0 +1,33 @@
+import { Error } from '../../../_types/error';
+import { Inventory } from '../../../_types/inventory';
+import { ArmyUnitResult } from '../../../_types/army-unit-result';
+import { errorStatus, IDLE_STATUS, LOADING_STATUS } from '../../../_types/status';
+
+import { ArmyUnit } from './army-unit';
+
+export class ArmyState {
+    waffenschmiede = 0;
+    schmiedekunst = 0;
+
+    units: Array<ArmyUnit> = [];
+    inventory: Inventory = {};
+
+    // one result per unit, in the order of the units
+    results: Array<ArmyUnitResult> = [];
+
+    status = IDLE_STATUS;
+}
+
+export const IDLE_STATE: Partial<ArmyState> = {
+    status: IDLE_STATUS,
+};
+
+export const LOADING_STATE: Partial<ArmyState> = {
+    status: LOADING_STATUS,
+};
+
+export function errorState(error: Error): Partial<ArmyState> {
+    return {
+        status: errorStatus(error),
+    };
+}
@@ -0,0 +1,12 @@
+import { Element } from '../../../_types/element';
+import { StatWeights } from '../../../_types/stat-weights';
+
+/**
+ * A unit of the army with the data of the unit at the time it was added and its own stat weighting.
+ */
+export interface ArmyUnit extends StatWeights {
+    name: string;
+    carryWeight: number;
+    element: Element;
+    ranged: boolean;
+}
@@ -0,0 +1,76 @@
+import { Component, OnDestroy, Self } from '@angular/core';
+import { distinctUntilChanged, filter, map } from 'rxjs';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { CompositeSubscription } from '../../_types/composite-subscription';
+import { Inventory } from '../../_types/inventory';
+import { StatWeights } from '../../_types/stat-weights';
+import { ArmyUnitResult } from '../../_types/army-unit-result';
+
+import { ArmyStore } from './_services/army.store';
+
+@Component({
+    selector: 'app-army-calculator',
+    templateUrl: './army-calculator.component.html',
+    styleUrls: ['./army-calculator.component.scss'],
+    providers: [ArmyStore],
+})
+export class ArmyCalculatorComponent implements OnDestroy {
+    subscriptions = new CompositeSubscription();
+
+    constructor(
+        @Self() public store: ArmyStore,
+        private snackbar: MatSnackBar,
+    ) {
+        this.subscriptions.add(
+            store.state$
+                .pipe(
+                    map(({ status }) => status),
+                    distinctUntilChanged(),
+                    filter((status) => !!status.error),
+                )
+                .subscribe((status) => {
+                    this.snackbar.open(`Da ist was schief gegangen: ${status.error?.message}`, '', { duration: 5000 });
+                }),
+        );
+    }
+
+    ngOnDestroy(): void {
+        this.subscriptions.unsubscribe();
+    }
+
+    // units without a set don't count
+    totalScore(results: Array<ArmyUnitResult>): number {
+        return results.reduce((acc, curr) => acc + (curr.best?.score ?? 0), 0);
+    }
+
+    onWaffenschmiedeChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        if (!isNaN(intValue)) this.store.updateWaffenschmiede(intValue);
+    }
+
+    onSchmiedekunstChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        if (!isNaN(intValue)) this.store.updateSchmiedekunst(intValue);
+    }
+
+    onUnitAdded(unitName: string): void {
+        this.store.addUnit(unitName);
+    }
+
+    onUnitRemoved(index: number): void {
+        this.store.removeUnit(index);
+    }
+
+    onWeightsChanged({ index, weights }: { index: number; weights: StatWeights }): void {
+        this.store.updateUnitWeights(index, weights);
+    }
+
+    onInventoryChanged(inventory: Inventory): void {
+        this.store.updateInventory(inventory);
+    }
+
+    calculate(): void {
+        this.store.calculate();
+    }
+}
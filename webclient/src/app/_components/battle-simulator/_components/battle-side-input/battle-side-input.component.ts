@@ -0,0 +1,71 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { UnitService } from '../../../../_services/unit.service';
+import { CUSTOM_UNIT_NAME } from '../../../../_types/unit';
+import { Equipment } from '../../../../_types/equipment';
+import { EquipmentSlot, equipmentSlots, getSetKey, getSlotItems } from '../../../../_types/equipment-slot';
+import { DEFAULT_WEIGHTINGS, DefaultWeighting } from '../../../../_types/default-weighting';
+import { InvalidInputError } from '../../../../_types/invalid-input-error';
+import { isValidElementCombination } from '../../../../_util/element-rules';
+import { SLOT_NAMES } from '../../../../_types/slot-names';
+import { BattleSide, SetSource } from '../../_types/battle-side';
+
+@Component({
+    selector: 'app-battle-side-input',
+    templateUrl: './battle-side-input.component.html',
+    styleUrls: ['./battle-side-input.component.scss'],
+})
+export class BattleSideInputComponent implements OnInit, OnDestroy {
+    @Input() side?: BattleSide;
+    @Output() unitChanged = new EventEmitter<string>();
+    @Output() countChanged = new EventEmitter<number>();
+    @Output() setSourceChanged = new EventEmitter<SetSource>();
+    @Output() weightingChanged = new EventEmitter<DefaultWeighting>();
+    @Output() itemChanged = new EventEmitter<{ slot: EquipmentSlot; itemName: string }>();
+
+    readonly SetSource = SetSource;
+    readonly DEFAULT_WEIGHTINGS = DEFAULT_WEIGHTINGS;
+    readonly SLOT_NAMES = SLOT_NAMES;
+    readonly equipmentSlots = equipmentSlots;
+
+    allUnits: string[] = [];
+    private unitsSubscription?: Subscription;
+
+    constructor(private unitService: UnitService) {}
+
+    ngOnInit(): void {
+        this.unitsSubscription = this.unitService.getUnits().subscribe((units) => {
+            // the custom unit has no base stats to fight with
+            this.allUnits = [...units.keys()].filter((name) => name !== CUSTOM_UNIT_NAME);
+        });
+    }
+
+    ngOnDestroy(): void {
+        this.unitsSubscription?.unsubscribe();
+    }
+
+    onCountChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        isNaN(intValue) || intValue < 1
+            ? this.countChanged.error(new InvalidInputError(`${value} is not a valid troop count.`))
+            : this.countChanged.emit(intValue);
+    }
+
+    // the items the unit can wear on its own, whether they fit together is checked before the simulation
+    getItems(slot: EquipmentSlot): Array<Equipment> {
+        const unit = this.side?.unit;
+        return getSlotItems(slot).filter(
+            (item) => !unit || (isValidElementCombination(unit.element, item.element) && (unit.ranged || !item.ranged)),
+        );
+    }
+
+    getItemName(slot: EquipmentSlot): string | undefined {
+        return this.side?.set[getSetKey(slot)].name;
+    }
+
+    // the weightings are constants, so they can be compared by name
+    compareWeightings(first?: DefaultWeighting, second?: DefaultWeighting): boolean {
+        return first?.name === second?.name;
+    }
+}
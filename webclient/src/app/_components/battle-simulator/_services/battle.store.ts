@@ -0,0 +1,230 @@
+import { Injectable } from '@angular/core';
+import {
+    asyncScheduler,
+    BehaviorSubject,
+    catchError,
+    concatMap,
+    forkJoin,
+    map,
+    mergeMap,
+    Observable,
+    observeOn,
+    of,
+    startWith,
+    Subject,
+    take,
+    throwError,
+} from 'rxjs';
+
+import { Action } from '../../../_types/action';
+import { Error, isError } from '../../../_types/error';
+import { Unit } from '../../../_types/unit';
+import { DefaultWeighting, toDefaultRequest } from '../../../_types/default-weighting';
+import { EquipmentSet } from '../../../_types/equipment-set';
+import { EquipmentSlot, getSetKey, getSlotItems } from '../../../_types/equipment-slot';
+import { InvalidUnitError } from '../../../_types/invalid-unit-error';
+import { InvalidItemCombinationError } from '../../../_types/invalid-item-combination-error';
+import { InternalError } from '../../../_types/internal-error';
+import { EquipmentService } from '../../../_services/equipment.service';
+import { StorageService } from '../../../_services/storage.service';
+import { UnitService } from '../../../_services/unit.service';
+import { BattleState, errorState, IDLE_STATE, LOADING_STATE, SideIndex } from '../_types/battle-state';
+import { BattleSide, SetSource } from '../_types/battle-side';
+import { DamageModel } from '../_types/damage-model';
+import { getCombatant, getSetError } from '../_types/combatant';
+import { simulateBattle } from '../_types/battle-result';
+import {
+    SimulateBattle,
+    UpdateDamageModel,
+    UpdateSetSource,
+    UpdateSideCount,
+    UpdateSideItem,
+    UpdateSideUnit,
+    UpdateSideWeighting,
+} from '../_types/battle-simulator-action';
+
+@Injectable()
+export class BattleStore {
+    state$: Observable<BattleState>;
+    private _state$: BehaviorSubject<BattleState>;
+    private _actions$: Subject<Action> = new Subject<Action>();
+
+    constructor(
+        private equipmentService: EquipmentService,
+        private unitService: UnitService,
+        storageService: StorageService,
+    ) {
+        const initialState = new BattleState();
+        initialState.waffenschmiede = storageService.getWaffenschmiede();
+        initialState.schmiedekunst = storageService.getSchmiedekunst();
+
+        this._state$ = new BehaviorSubject<BattleState>(initialState);
+        this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
+        this._actions$
+            .pipe(
+                observeOn(asyncScheduler),
+                concatMap((action) => this.handleAction(action)),
+            )
+            .subscribe((stateUpdate) => this.updateState(stateUpdate));
+    }
+
+    get state(): BattleState {
+        return this._state$.getValue();
+    }
+
+    updateSideUnit(side: SideIndex, unitName: string): void {
+        this.dispatch(new UpdateSideUnit(side, unitName));
+    }
+
+    updateSideCount(side: SideIndex, count: number): void {
+        this.dispatch(new UpdateSideCount(side, count));
+    }
+
+    updateSetSource(side: SideIndex, setSource: SetSource): void {
+        this.dispatch(new UpdateSetSource(side, setSource));
+    }
+
+    updateSideWeighting(side: SideIndex, weighting: DefaultWeighting): void {
+        this.dispatch(new UpdateSideWeighting(side, weighting));
+    }
+
+    updateSideItem(side: SideIndex, slot: EquipmentSlot, itemName: string): void {
+        this.dispatch(new UpdateSideItem(side, slot, itemName));
+    }
+
+    updateDamageModel(damageModel: DamageModel): void {
+        this.dispatch(new UpdateDamageModel(damageModel));
+    }
+
+    simulate(): void {
+        this.dispatch(new SimulateBattle());
+    }
+
+    private dispatch(...actions: Array<Action>): void {
+        actions.forEach((action) => this._actions$.next(action));
+    }
+
+    private updateState(update: Partial<BattleState>): void {
+        this.setState({ ...this.state, ...update });
+    }
+
+    private setState(state: BattleState): void {
+        this._state$.next(state);
+    }
+
+    private handleAction(action: Action): Observable<Partial<BattleState>> {
+        if (action instanceof SimulateBattle) return this.onSimulateBattle();
+        if (action instanceof UpdateSideUnit) return this.onUpdateSideUnit(action);
+        if (action instanceof UpdateSideCount) return this.updateSide(action.side, { count: action.count });
+        if (action instanceof UpdateSetSource) return this.updateSide(action.side, { setSource: action.setSource });
+        if (action instanceof UpdateSideWeighting) return this.updateSide(action.side, { weighting: action.weighting });
+        if (action instanceof UpdateSideItem) return this.onUpdateSideItem(action);
+        if (action instanceof UpdateDamageModel) return this.onUpdateDamageModel(action);
+
+        return of(IDLE_STATE);
+    }
+
+    private errorState(error: Error): Observable<Partial<BattleState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({ ...state, ...errorState(error) })),
+        );
+    }
+
+    // every change of a side invalidates the last result
+    private updateSide(index: SideIndex, update: Partial<BattleSide>): Observable<Partial<BattleState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                sides: state.sides.map((side, sideIndex) => (sideIndex === index ? { ...side, ...update } : side)) as [
+                    BattleSide,
+                    BattleSide,
+                ],
+                result: undefined,
+                ...IDLE_STATE,
+            })),
+        );
+    }
+
+    private onUpdateSideUnit(action: UpdateSideUnit): Observable<Partial<BattleState>> {
+        return this.unitService.getUnitByName(action.unitName).pipe(
+            take(1),
+            mergeMap((unit) =>
+                unit
+                    ? this.updateSide(action.side, { unit })
+                    : this.errorState(new InvalidUnitError(`${action.unitName} ist unbekannt.`)),
+            ),
+        );
+    }
+
+    private onUpdateSideItem(action: UpdateSideItem): Observable<Partial<BattleState>> {
+        const item = getSlotItems(action.slot).find((equipment) => equipment.name === action.itemName);
+        if (!item) return this.errorState(new InvalidItemCombinationError(`${action.itemName} ist unbekannt.`));
+
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                this.updateSide(action.side, {
+                    set: { ...state.sides[action.side].set, [getSetKey(action.slot)]: item },
+                }),
+            ),
+        );
+    }
+
+    private onUpdateDamageModel(action: UpdateDamageModel): Observable<Partial<BattleState>> {
+        return of({ damageModel: action.damageModel, result: undefined, ...IDLE_STATE });
+    }
+
+    // Calculates the sets of the sides that use a calculated set, then simulates the battle
+    private onSimulateBattle(): Observable<Partial<BattleState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                const [first, second] = state.sides;
+                if (!first.unit || !second.unit) {
+                    return this.errorState(new InvalidUnitError('Beide Seiten brauchen eine Einheit.'));
+                }
+                const units: [Unit, Unit] = [first.unit, second.unit];
+
+                return forkJoin(state.sides.map((side, index) => this.getSet(state, side, units[index]))).pipe(
+                    map(([firstSet, secondSet]) => ({
+                        sides: [
+                            { ...first, set: firstSet },
+                            { ...second, set: secondSet },
+                        ] as [BattleSide, BattleSide],
+                        result: simulateBattle(
+                            [
+                                getCombatant(units[0], first.count, firstSet, state.schmiedekunst),
+                                getCombatant(units[1], second.count, secondSet, state.schmiedekunst),
+                            ],
+                            state.damageModel,
+                        ),
+                        ...IDLE_STATE,
+                    })),
+                    startWith({ result: undefined, ...LOADING_STATE }),
+                    catchError((error) => {
+                        console.error('Error simulating battle:', error);
+                        return of(
+                            errorState(
+                                isError(error) ? error : new InternalError('Der Kampf konnte nicht simuliert werden.'),
+                            ),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    private getSet(state: BattleState, side: BattleSide, unit: Unit): Observable<EquipmentSet> {
+        if (side.setSource === SetSource.MANUAL) {
+            const error = getSetError(unit, side.set);
+            return error ? throwError(() => error) : of(side.set);
+        }
+        return this.equipmentService
+            .getEquipment(toDefaultRequest(unit, side.weighting, state.waffenschmiede, state.schmiedekunst))
+            .pipe(
+                take(1),
+                map(({ sets }) => sets[0].set),
+            );
+    }
+}
@@ -0,0 +1,66 @@
+import { Combatant } from './combatant';
+import { DamageModel, getElementFactor } from './damage-model';
+
+export interface BattleRound {
+    round: number;
+    // only the units with a ranged weapon attack
+    ranged: boolean;
+    // per side: the damage it dealt, the units it lost and the units it has left after the round
+    damage: [number, number];
+    losses: [number, number];
+    remaining: [number, number];
+}
+
+export interface BattleResult {
+    combatants: [Combatant, Combatant];
+    rounds: Array<BattleRound>;
+    // index of the winning side, undefined for a draw
+    winner?: 0 | 1;
+}
+
+// the damage of one hit of the attacker against the defender
+export function getHitDamage(attacker: Combatant, defender: Combatant, model: DamageModel): number {
+    const attack = attacker.ap * getElementFactor(attacker.attackElement, defender.defenseElement, model);
+    return Math.max(attack - defender.vp * model.defenseFactor, attacker.ap * model.minDamage, 0);
+}
+
+// a unit with HP left is still fighting, the tolerance keeps rounding errors from counting an extra unit
+function unitsAlive(combatant: Combatant, health: number): number {
+    return Math.max(Math.ceil(health / combatant.hp - 1e-9), 0);
+}
+
+/**
+ * Simulates the battle of the two combatants with the expected damage of every round, see DamageModel.
+ */
+export function simulateBattle(combatants: [Combatant, Combatant], model: DamageModel): BattleResult {
+    const health = combatants.map((combatant) => combatant.count * combatant.hp);
+    const hitDamage = [
+        getHitDamage(combatants[0], combatants[1], model),
+        getHitDamage(combatants[1], combatants[0], model),
+    ];
+    const rangedRounds = combatants.some((combatant) => combatant.ranged) ? model.rangedRounds : 0;
+    const rounds: Array<BattleRound> = [];
+
+    for (let round = 1; round <= rangedRounds + model.maxRounds && health.every((h) => h > 0); round++) {
+        const ranged = round <= rangedRounds;
+        const alive = combatants.map((combatant, index) => unitsAlive(combatant, health[index]));
+        const damage = combatants.map((combatant, index) =>
+            ranged && !combatant.ranged ? 0 : alive[index] * hitDamage[index],
+        );
+        // both sides attack at the same time, so the damage is dealt after both attacks
+        health[0] = Math.max(health[0] - damage[1], 0);
+        health[1] = Math.max(health[1] - damage[0], 0);
+        const remaining = combatants.map((combatant, index) => unitsAlive(combatant, health[index]));
+
+        rounds.push({
+            round,
+            ranged,
+            damage: [Math.round(damage[0]), Math.round(damage[1])],
+            losses: [alive[0] - remaining[0], alive[1] - remaining[1]],
+            remaining: [remaining[0], remaining[1]],
+        });
+    }
+
+    const [first, second] = health.map((h) => h > 0);
+    return { combatants, rounds, winner: first === second ? undefined : first ? 0 : 1 };
+}
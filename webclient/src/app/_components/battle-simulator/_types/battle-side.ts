@@ -0,0 +1,44 @@
+import { Unit } from '../../../_types/unit';
+import { EquipmentSet } from '../../../_types/equipment-set';
+import { DEFAULT_WEIGHTINGS, DefaultWeighting } from '../../../_types/default-weighting';
+import { DEFAULT_EQUIPMENT_NAME } from '../../../_constants/equipment.constants';
+import { Equipment } from '../../../_types/equipment';
+import { EquipmentSlot, getSlotItems } from '../../../_types/equipment-slot';
+
+export enum SetSource {
+    CALCULATED = 'CALCULATED',
+    MANUAL = 'MANUAL',
+}
+
+export interface BattleSide {
+    unit?: Unit;
+    count: number;
+    setSource: SetSource;
+    // weighting of the calculated set
+    weighting: DefaultWeighting;
+    // the manually chosen set, or the calculated one after a simulation
+    set: EquipmentSet;
+}
+
+function defaultItem(slot: EquipmentSlot): Equipment {
+    return getSlotItems(slot).find((item) => item.name === DEFAULT_EQUIPMENT_NAME) ?? getSlotItems(slot)[0];
+}
+
+export function getEmptySet(): EquipmentSet {
+    return {
+        weapon: defaultItem(EquipmentSlot.WEAPON),
+        shield: defaultItem(EquipmentSlot.SHIELD),
+        helmet: defaultItem(EquipmentSlot.HELMET),
+        armour: defaultItem(EquipmentSlot.ARMOUR),
+        accessory: defaultItem(EquipmentSlot.ACCESSORY),
+    };
+}
+
+export function getDefaultSide(): BattleSide {
+    return {
+        count: 100,
+        setSource: SetSource.CALCULATED,
+        weighting: DEFAULT_WEIGHTINGS[0],
+        set: getEmptySet(),
+    };
+}
@@ -0,0 +1,61 @@
+import { Action } from '../../../_types/action';
+import { DefaultWeighting } from '../../../_types/default-weighting';
+import { EquipmentSlot } from '../../../_types/equipment-slot';
+
+import { SetSource } from './battle-side';
+import { DamageModel } from './damage-model';
+import { SideIndex } from './battle-state';
+
+export class UpdateSideUnit extends Action {
+    constructor(
+        public side: SideIndex,
+        public unitName: string,
+    ) {
+        super();
+    }
+}
+
+export class UpdateSideCount extends Action {
+    constructor(
+        public side: SideIndex,
+        public count: number,
+    ) {
+        super();
+    }
+}
+
+export class UpdateSetSource extends Action {
+    constructor(
+        public side: SideIndex,
+        public setSource: SetSource,
+    ) {
+        super();
+    }
+}
+
+export class UpdateSideWeighting extends Action {
+    constructor(
+        public side: SideIndex,
+        public weighting: DefaultWeighting,
+    ) {
+        super();
+    }
+}
+
+export class UpdateSideItem extends Action {
+    constructor(
+        public side: SideIndex,
+        public slot: EquipmentSlot,
+        public itemName: string,
+    ) {
+        super();
+    }
+}
+
+export class UpdateDamageModel extends Action {
+    constructor(public damageModel: DamageModel) {
+        super();
+    }
+}
+
+export class SimulateBattle extends Action {}
@@ -0,0 +1,35 @@
+import { Error } from '../../../_types/error';
+import { errorStatus, IDLE_STATUS, LOADING_STATUS } from '../../../_types/status';
+
+import { BattleSide, getDefaultSide } from './battle-side';
+import { DamageModel, DEFAULT_DAMAGE_MODEL } from './damage-model';
+import { BattleResult } from './battle-result';
+
+export type SideIndex = 0 | 1;
+
+export class BattleState {
+    // the stored levels, used for the calculated sets and the Schmiedekunst bonus
+    waffenschmiede = 0;
+    schmiedekunst = 0;
+
+    sides: [BattleSide, BattleSide] = [getDefaultSide(), getDefaultSide()];
+    damageModel: DamageModel = DEFAULT_DAMAGE_MODEL;
+
+    result?: BattleResult;
+
+    status = IDLE_STATUS;
+}
+
+export const IDLE_STATE: Partial<BattleState> = {
+    status: IDLE_STATUS,
+};
+
+export const LOADING_STATE: Partial<BattleState> = {
+    status: LOADING_STATUS,
+};
+
+export function errorState(error: Error): Partial<BattleState> {
+    return {
+        status: errorStatus(error),
+    };
+}
@@ -0,0 +1,53 @@
+import { Element } from '../../../_types/element';
+import { Error } from '../../../_types/error';
+import { Unit } from '../../../_types/unit';
+import { EquipmentSet, totalAP, totalHP, totalVP, totalWeight } from '../../../_types/equipment-set';
+import { ElementMismatchError } from '../../../_types/element-mismatch-error';
+import { InvalidItemCombinationError } from '../../../_types/invalid-item-combination-error';
+import { combineElements } from '../../../_util/element-rules';
+
+/**
+ * The stats a side of the battle fights with: the base stats of its unit plus its equipment.
+ */
+export interface Combatant {
+    name: string;
+    count: number;
+    ap: number;
+    vp: number;
+    hp: number;
+    ranged: boolean;
+    attackElement: Element;
+    defenseElement: Element;
+}
+
+/**
+ * Checks that the unit can wear the manually chosen set. The Waffenschmiede level is not checked, so sets that are not
+ * available yet can be tried out.
+ */
+export function getSetError(unit: Unit, set: EquipmentSet): Error | undefined {
+    if (totalWeight(set) > unit.carryWeight) {
+        return new InvalidItemCombinationError(`Die Ausrüstung ist zu schwer für ${unit.name}.`);
+    }
+    if (set.weapon.ranged && !unit.ranged) {
+        return new InvalidItemCombinationError(`${unit.name} kann keine FK-Waffe tragen.`);
+    }
+    const items = Object.values(set);
+    if (combineElements(unit.element, ...items.map((item) => item.element)) === undefined) {
+        return new ElementMismatchError(`Die Elemente der Ausrüstung passen nicht zu ${unit.name}.`);
+    }
+    return undefined;
+}
+
+export function getCombatant(unit: Unit, count: number, set: EquipmentSet, schmiedekunst: number): Combatant {
+    return {
+        name: unit.name,
+        count,
+        ap: unit.ap + totalAP(set, schmiedekunst),
+        vp: unit.vp + totalVP(set, schmiedekunst),
+        // a unit needs at least one HP to take part in the battle
+        hp: Math.max(unit.hp + totalHP(set, schmiedekunst), 1),
+        ranged: set.weapon.ranged,
+        attackElement: combineElements(unit.element, set.weapon.element) ?? unit.element,
+        defenseElement: combineElements(unit.element, set.armour.element, set.shield.element) ?? unit.element,
+    };
+}
@@ -0,0 +1,40 @@
+import { Element } from '../../../_types/element';
+import { combineElements, isValidElementCombination } from '../../../_util/element-rules';
+
+/**
+ * Parameters of the damage model of the battle simulator. The simulation uses expected values, so the same input
+ * always gives the same outcome:
+ * - Before the first round, units with a ranged weapon attack alone for rangedRounds rounds.
+ * - In every round both sides attack at the same time with all units alive at the start of the round.
+ * - A hit deals AP × element factor − VP × defenseFactor of the target, but at least minDamage × AP.
+ * - The element factor is elementBonus if the attack element opposes the defense element (fire or air against earth
+ *   or ice), elementResistance if the defense has the attack element and 1 otherwise.
+ * - The damage of a side is dealt to the enemy units one after another, a unit dies when its HP are used up.
+ * - MP are not used.
+ * - The battle ends when a side has no units left, after maxRounds rounds of close combat it is a draw.
+ */
+export interface DamageModel {
+    rangedRounds: number;
+    defenseFactor: number;
+    minDamage: number;
+    elementBonus: number;
+    elementResistance: number;
+    maxRounds: number;
+}
+
+export const DEFAULT_DAMAGE_MODEL: DamageModel = {
+    rangedRounds: 1,
+    defenseFactor: 0.5,
+    minDamage: 0.1,
+    elementBonus: 1.5,
+    elementResistance: 0.75,
+    maxRounds: 20,
+};
+
+export function getElementFactor(attackElement: Element, defenseElement: Element, model: DamageModel): number {
+    if (attackElement === Element.NONE || defenseElement === Element.NONE) return 1;
+    if (!isValidElementCombination(attackElement, defenseElement)) return model.elementBonus;
+    // the defense has the attack element if it is the same or contains it as a dual element
+    if (combineElements(attackElement, defenseElement) === defenseElement) return model.elementResistance;
+    return 1;
+}
@@ -0,0 +1,105 @@
+import { Component, OnDestroy, Self } from '@angular/core';
+import { distinctUntilChanged, filter, map } from 'rxjs';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { CompositeSubscription } from '../../_types/composite-subscription';
+import { DefaultWeighting } from '../../_types/default-weighting';
+import { EquipmentSlot } from '../../_types/equipment-slot';
+import { getBaseStats } from '../../_types/base-stats';
+
+import { BattleStore } from './_services/battle.store';
+import { SideIndex } from './_types/battle-state';
+import { SetSource } from './_types/battle-side';
+import { DamageModel } from './_types/damage-model';
+import { BattleResult, getHitDamage } from './_types/battle-result';
+
+interface DamageModelField {
+    key: keyof DamageModel;
+    label: string;
+    step: number;
+}
+
+const DAMAGE_MODEL_FIELDS: Array<DamageModelField> = [
+    { key: 'rangedRounds', label: 'Fernkampfrunden', step: 1 },
+    { key: 'defenseFactor', label: 'VP-Faktor', step: 0.05 },
+    { key: 'minDamage', label: 'Mindestschaden (Anteil AP)', step: 0.05 },
+    { key: 'elementBonus', label: 'Elementvorteil', step: 0.05 },
+    { key: 'elementResistance', label: 'Elementresistenz', step: 0.05 },
+    { key: 'maxRounds', label: 'Maximale Runden', step: 1 },
+];
+
+@Component({
+    selector: 'app-battle-simulator',
+    templateUrl: './battle-simulator.component.html',
+    styleUrls: ['./battle-simulator.component.scss'],
+    providers: [BattleStore],
+})
+export class BattleSimulatorComponent implements OnDestroy {
+    readonly DAMAGE_MODEL_FIELDS = DAMAGE_MODEL_FIELDS;
+    readonly sideIndices: Array<SideIndex> = [0, 1];
+
+    subscriptions = new CompositeSubscription();
+
+    getBaseStats = getBaseStats;
+
+    constructor(
+        @Self() public store: BattleStore,
+        private snackbar: MatSnackBar,
+    ) {
+        this.subscriptions.add(
+            store.state$
+                .pipe(
+                    map(({ status }) => status),
+                    distinctUntilChanged(),
+                    filter((status) => !!status.error),
+                )
+                .subscribe((status) => {
+                    this.snackbar.open(`Da ist was schief gegangen: ${status.error?.message}`, '', { duration: 5000 });
+                }),
+        );
+    }
+
+    ngOnDestroy(): void {
+        this.subscriptions.unsubscribe();
+    }
+
+    onUnitChanged(side: SideIndex, unitName: string): void {
+        this.store.updateSideUnit(side, unitName);
+    }
+
+    onCountChanged(side: SideIndex, count: number): void {
+        this.store.updateSideCount(side, count);
+    }
+
+    onSetSourceChanged(side: SideIndex, setSource: SetSource): void {
+        this.store.updateSetSource(side, setSource);
+    }
+
+    onWeightingChanged(side: SideIndex, weighting: DefaultWeighting): void {
+        this.store.updateSideWeighting(side, weighting);
+    }
+
+    onItemChanged(side: SideIndex, { slot, itemName }: { slot: EquipmentSlot; itemName: string }): void {
+        this.store.updateSideItem(side, slot, itemName);
+    }
+
+    onDamageModelChanged(damageModel: DamageModel, key: keyof DamageModel, value: string): void {
+        const numberValue = Number.parseFloat(value);
+        if (!isNaN(numberValue) && numberValue >= 0)
+            this.store.updateDamageModel({ ...damageModel, [key]: numberValue });
+    }
+
+    simulate(): void {
+        this.store.simulate();
+    }
+
+    hitDamage(result: BattleResult, side: SideIndex, damageModel: DamageModel): number {
+        const { combatants } = result;
+        return Math.round(getHitDamage(combatants[side], combatants[1 - side], damageModel));
+    }
+
+    remaining(result: BattleResult, side: SideIndex): number {
+        const lastRound = result.rounds[result.rounds.length - 1];
+        return lastRound ? lastRound.remaining[side] : result.combatants[side].count;
+    }
+}
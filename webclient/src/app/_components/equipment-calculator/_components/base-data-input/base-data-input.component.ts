@@ -5,6 +5,10 @@ import { Subscription } from 'rxjs';
 
 import { UnitService } from '../../../../_services/unit.service';
 import { InvalidInputError } from '../../../../_types/invalid-input-error';
+import { MAX_RANKING_SIZE } from '../../../../_constants/equipment.constants';
+import { stats } from '../../../../_types/stat';
+import { maxBoundKey, minBoundKey, StatBounds } from '../../../../_types/stat-bounds';
+import { isValidElementChoice } from '../../../../_util/element-rules';
 
 @Component({
     selector: 'app-base-data-input',
@@ -22,6 +26,9 @@ export class BaseDataInputComponent implements OnInit, OnDestroy {
     @Input() elementDefense?: Element;
     @Input() rangedRequired = false;
     @Input() rangedForbidden = false;
+    @Input() rankingSize = 1;
+    @Input() statBounds: StatBounds = {};
+    @Input() onlyOwnedItems = false;
     @Output() waffenschmiedeChanged = new EventEmitter<number>();
     @Output() schmiedekunstChanged = new EventEmitter<number>();
     @Output() selectedUnitChanged = new EventEmitter<string | undefined>();
@@ -32,9 +39,17 @@ export class BaseDataInputComponent implements OnInit, OnDestroy {
     @Output() elementDefenseChanged = new EventEmitter<Element | undefined>();
     @Output() rangedRequiredChanged = new EventEmitter<boolean>();
     @Output() rangedForbiddenChanged = new EventEmitter<boolean>();
+    @Output() rankingSizeChanged = new EventEmitter<number>();
+    @Output() statBoundsChanged = new EventEmitter<StatBounds>();
+    @Output() onlyOwnedItemsChanged = new EventEmitter<boolean>();
+
+    readonly MAX_RANKING_SIZE = MAX_RANKING_SIZE;
 
     allUnits: string[] = [];
     elements = elements;
+    stats = stats;
+    minBoundKey = minBoundKey;
+    maxBoundKey = maxBoundKey;
     private unitsSubscription?: Subscription;
 
     constructor(private unitService: UnitService) {}
@@ -55,6 +70,15 @@ export class BaseDataInputComponent implements OnInit, OnDestroy {
         return name;
     }
 
+    // a target is unreachable if no set of the unit element has it together with the other target
+    isAttackElementReachable(element: Element): boolean {
+        return isValidElementChoice(this.unitElement, element, this.elementDefense);
+    }
+
+    isDefenseElementReachable(element: Element): boolean {
+        return isValidElementChoice(this.unitElement, this.elementAttack, element);
+    }
+
     onWaffenschmiedeChanged(value: string): void {
         const intValue = Number.parseInt(value);
         isNaN(intValue)
@@ -92,6 +116,21 @@ export class BaseDataInputComponent implements OnInit, OnDestroy {
             : this.carryWeightChanged.emit(intValue);
     }
 
+    onRankingSizeChanged(value: string): void {
+        const intValue = Number.parseInt(value);
+        isNaN(intValue) || intValue < 1 || intValue > MAX_RANKING_SIZE
+            ? this.rankingSizeChanged.error(new InvalidInputError(`${value} is not between 1 and ${MAX_RANKING_SIZE}.`))
+            : this.rankingSizeChanged.emit(intValue);
+    }
+
+    // an empty field removes the bound
+    onStatBoundChanged(key: keyof StatBounds, value: string): void {
+        const intValue = value === '' ? undefined : Number.parseInt(value);
+        intValue !== undefined && isNaN(intValue)
+            ? this.statBoundsChanged.error(new InvalidInputError(`${value} is not a number.`))
+            : this.statBoundsChanged.emit({ ...this.statBounds, [key]: intValue });
+    }
+
     onRangedChanged(change: MatCheckboxChange): void {
         this.rangedChanged.emit(change.checked);
     }
@@ -103,4 +142,8 @@ export class BaseDataInputComponent implements OnInit, OnDestroy {
     onRangedForbiddenChanged(change: MatCheckboxChange): void {
         this.rangedForbiddenChanged.emit(change.checked);
     }
+
+    onOnlyOwnedItemsChanged(change: MatCheckboxChange): void {
+        this.onlyOwnedItemsChanged.emit(change.checked);
+    }
 }
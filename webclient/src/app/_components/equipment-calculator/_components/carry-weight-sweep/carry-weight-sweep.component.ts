@@ -0,0 +1,93 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { CarryWeightBreakpoint } from '../../../../_types/carry-weight-breakpoint';
+import { EquipmentSet } from '../../../../_types/equipment-set';
+import { MAX_WEIGHT_BONUS } from '../../../../_constants/equipment.constants';
+
+const WIDTH = 600;
+const HEIGHT = 320;
+const PADDING = 48;
+
+@Component({
+    selector: 'app-carry-weight-sweep',
+    templateUrl: './carry-weight-sweep.component.html',
+    styleUrls: ['./carry-weight-sweep.component.scss'],
+})
+export class CarryWeightSweepComponent {
+    @Input() carryWeight = 0;
+    @Input() range = MAX_WEIGHT_BONUS;
+    @Input() breakpoints: Array<CarryWeightBreakpoint> = [];
+    @Input() loading = false;
+    @Output() rangeChanged = new EventEmitter<number>();
+    @Output() calculate = new EventEmitter<void>();
+    @Output() setSelected = new EventEmitter<EquipmentSet>();
+
+    readonly WIDTH = WIDTH;
+    readonly HEIGHT = HEIGHT;
+    readonly PADDING = PADDING;
+
+    // the strongest accessory lowers the weight of a set by MAX_WEIGHT_BONUS, larger ranges take noticeably longer
+    readonly ranges = [MAX_WEIGHT_BONUS, 100, 200];
+
+    // the breakpoint whose set is the best one for the carry weight of the unit
+    currentIndex(): number {
+        return this.breakpoints.reduce(
+            (current, breakpoint, index) => (breakpoint.carryWeight <= this.carryWeight ? index : current),
+            0,
+        );
+    }
+
+    nextBreakpoint(): CarryWeightBreakpoint | undefined {
+        return this.breakpoints[this.currentIndex() + 1];
+    }
+
+    scoreGain(breakpoint: CarryWeightBreakpoint): number {
+        const current = this.breakpoints[this.currentIndex()].best?.score ?? 0;
+        return (breakpoint.best?.score ?? 0) - current;
+    }
+
+    selectBreakpoint(breakpoint: CarryWeightBreakpoint): void {
+        if (breakpoint.best) this.setSelected.emit(breakpoint.best.set);
+    }
+
+    scaleX(carryWeight: number): number {
+        const [min, max] = this.xRange();
+        return PADDING + ((carryWeight - min) / (max - min)) * (WIDTH - 2 * PADDING);
+    }
+
+    scaleY(score: number): number {
+        const [min, max] = this.yRange();
+        return HEIGHT - PADDING - ((score - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+    }
+
+    xRange(): [number, number] {
+        return [Math.max(this.carryWeight - this.range, 0), this.carryWeight + this.range];
+    }
+
+    yRange(): [number, number] {
+        const scores = this.breakpoints
+            .filter((breakpoint) => !!breakpoint.best)
+            .map((breakpoint) => breakpoint.best?.score ?? 0);
+        const min = Math.min(...scores);
+        const max = Math.max(...scores);
+        return min === max ? [min - 1, max + 1] : [min, max];
+    }
+
+    // the score stays the same until the next breakpoint, so the line is drawn as steps
+    stepLine(): string {
+        const end = this.xRange()[1];
+        return this.breakpoints
+            .filter((breakpoint) => !!breakpoint.best)
+            .flatMap((breakpoint, index, valid) => {
+                const y = this.scaleY(breakpoint.best?.score ?? 0);
+                const next = valid[index + 1]?.carryWeight ?? end;
+                return [`${this.scaleX(breakpoint.carryWeight)},${y}`, `${this.scaleX(next)},${y}`];
+            })
+            .join(' ');
+    }
+
+    describe(breakpoint: CarryWeightBreakpoint): string {
+        const swaps = breakpoint.swaps.map((swap) => `${swap.removed} → ${swap.added}`).join(', ');
+        return `ab Tragkraft ${breakpoint.carryWeight}: Wertung ${breakpoint.best?.score}${swaps ? `, ${swaps}` : ''}`;
+    }
+}
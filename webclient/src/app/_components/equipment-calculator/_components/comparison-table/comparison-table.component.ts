@@ -0,0 +1,52 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { EquipmentSlot, getEquipmentItems } from '../../../../_types/equipment-slot';
+import { Equipment } from '../../../../_types/equipment';
+import { totalStat, totalWeight } from '../../../../_types/equipment-set';
+import { Stat, stats } from '../../../../_types/stat';
+import { ComparedSet } from '../../_types/compared-set';
+
+const WEIGHT = 'Gewicht';
+
+@Component({
+    selector: 'app-comparison-table',
+    templateUrl: './comparison-table.component.html',
+    styleUrls: ['./comparison-table.component.scss'],
+})
+export class ComparisonTableComponent {
+    @Input() sets: Array<ComparedSet> = [];
+    @Output() removed = new EventEmitter<number>();
+    @Output() moved = new EventEmitter<{ id: number; index: number }>();
+
+    readonly WEIGHT = WEIGHT;
+
+    rows: Array<Stat | typeof WEIGHT> = [...stats, WEIGHT];
+
+    slotLabels(): Array<{ slot: EquipmentSlot; label: string }> {
+        return this.sets.length > 0 ? getEquipmentItems(this.sets[0].set) : [];
+    }
+
+    item(comparedSet: ComparedSet, slot: EquipmentSlot): Equipment | undefined {
+        return getEquipmentItems(comparedSet.set).find((item) => item.slot === slot)?.equipment;
+    }
+
+    // the item differs from the one of the first set
+    itemChanged(comparedSet: ComparedSet, slot: EquipmentSlot): boolean {
+        return this.item(comparedSet, slot)?.name !== this.item(this.sets[0], slot)?.name;
+    }
+
+    value({ set, schmiedekunst }: ComparedSet, row: Stat | typeof WEIGHT): number {
+        return row === WEIGHT ? totalWeight(set) : totalStat(set, row, schmiedekunst);
+    }
+
+    // the highest stat or the lowest weight, nothing is highlighted if all sets are equal
+    isBest(comparedSet: ComparedSet, row: Stat | typeof WEIGHT): boolean {
+        const values = this.sets.map((other) => this.value(other, row));
+        const best = row === WEIGHT ? Math.min(...values) : Math.max(...values);
+        return values.some((value) => value !== best) && this.value(comparedSet, row) === best;
+    }
+
+    setId(index: number, comparedSet: ComparedSet): number {
+        return comparedSet.id;
+    }
+}
@@ -1,9 +1,38 @@
 import { Component, EventEmitter, Input, Output } from '@angular/core';
 
-import { EquipmentSet, totalAP, totalHP, totalMP, totalVP, totalWeight } from '../../../../_types/equipment-set';
-import { Element } from '../../../../_types/element';
-import { Equipment } from '../../../../_types/equipment';
-import { DEFAULT_EQUIPMENT_NAME, EQUIPMENT_LABELS } from '../../../../_constants/equipment.constants';
+import {
+    EquipmentSet,
+    totalAP,
+    totalHP,
+    totalMP,
+    totalStat,
+    totalVP,
+    totalWeight,
+} from '../../../../_types/equipment-set';
+import { Element, getElementIcons } from '../../../../_types/element';
+import { DEFAULT_EQUIPMENT_NAME } from '../../../../_constants/equipment.constants';
+import { EquipmentSlot, getEquipmentItems, SetItem } from '../../../../_types/equipment-slot';
+import { RejectionReason, SlotExplanation } from '../../../../_types/slot-explanation';
+import { BaseStats, baseStat, percentOf } from '../../../../_types/base-stats';
+import { Stat, stats } from '../../../../_types/stat';
+
+interface CombinedStat {
+    stat: Stat;
+    base: number;
+    equipment: number;
+    total: number;
+    // improvement over the base stat in percent, missing if the unit does not have the stat
+    improvement?: number;
+}
+
+const REJECTION_REASONS: Record<RejectionReason, string> = {
+    [RejectionReason.IGNORED]: 'ignoriert',
+    [RejectionReason.WAFFENSCHMIEDE]: 'Waffenschmiede zu niedrig',
+    [RejectionReason.RANGED]: 'FK-Waffe nicht erlaubt oder nötig',
+    [RejectionReason.ELEMENT]: 'Element passt nicht',
+    [RejectionReason.WEIGHT]: 'zu schwer',
+    [RejectionReason.STAT_BOUNDS]: 'verletzt die Mindest- oder Höchstwerte',
+};
 
 @Component({
     selector: 'app-equipment-set',
@@ -15,10 +44,19 @@ export class EquipmentSetComponent {
     @Input() set?: EquipmentSet;
     @Input() compareWith?: EquipmentSet;
     @Input() schmiedekunst = 0;
-    
+    @Input() pinnedItems: string[] = [];
+    @Input() explanation: Array<SlotExplanation> = [];
+    // if set, the stats of the unit with and without the set are shown as well
+    @Input() baseStats?: BaseStats;
+
     @Output() itemIgnored = new EventEmitter<string>();
+    @Output() itemPinned = new EventEmitter<string>();
+    @Output() explain = new EventEmitter<void>();
 
     readonly DEFAULT_EQUIPMENT_NAME = DEFAULT_EQUIPMENT_NAME;
+    readonly REJECTION_REASONS = REJECTION_REASONS;
+
+    explainedSlot?: EquipmentSlot;
 
     totalAP = totalAP;
     totalVP = totalVP;
@@ -28,42 +66,16 @@ export class EquipmentSetComponent {
 
     getOffenseElementIcons(): Set<string> {
         if (!this.set) return new Set<string>();
-        const unitElementIcons = this.getElementIcons(this.unitElement);
-        const weaponElementIcons = this.getElementIcons(this.set.weapon.element);
-        return new Set([...unitElementIcons, ...weaponElementIcons]);
+        return new Set([...getElementIcons(this.unitElement), ...getElementIcons(this.set.weapon.element)]);
     }
 
     getDefenseElementIcons(): Set<string> {
         if (!this.set) return new Set<string>();
-        const unitElementIcons = this.getElementIcons(this.unitElement);
-        const shieldElementIcons = this.getElementIcons(this.set.shield.element);
-        const armourElementIcons = this.getElementIcons(this.set.armour.element);
-        return new Set([...unitElementIcons, ...shieldElementIcons, ...armourElementIcons]);
-    }
-
-    getElementIcons(element: Element): Array<string> {
-        const result = [];
-        switch (element) {
-            case Element.FIRE_AIR:
-                result.push('assets/images/fire.gif', 'assets/images/wind.gif');
-                break;
-            case Element.FIRE:
-                result.push('assets/images/fire.gif');
-                break;
-            case Element.AIR:
-                result.push('assets/images/wind.gif');
-                break;
-            case Element.EARTH_ICE:
-                result.push('assets/images/earth.gif', 'assets/images/ice.gif');
-                break;
-            case Element.EARTH:
-                result.push('assets/images/earth.gif');
-                break;
-            case Element.ICE:
-                result.push('assets/images/ice.gif');
-                break;
-        }
-        return result;
+        return new Set([
+            ...getElementIcons(this.unitElement),
+            ...getElementIcons(this.set.shield.element),
+            ...getElementIcons(this.set.armour.element),
+        ]);
     }
 
     differenceAP(set: EquipmentSet, compareWith: EquipmentSet): number {
@@ -82,19 +94,43 @@ export class EquipmentSetComponent {
         return totalMP(set, this.schmiedekunst) - totalMP(compareWith, this.schmiedekunst);
     }
 
+    getCombinedStats(): Array<CombinedStat> {
+        const { set, baseStats } = this;
+        if (!set || !baseStats) return [];
+
+        return stats.map((stat: Stat) => {
+            const base = baseStat(baseStats, stat);
+            const equipment = totalStat(set, stat, this.schmiedekunst);
+            return {
+                stat,
+                base,
+                equipment,
+                total: base + equipment,
+                improvement: base > 0 ? Math.round(percentOf(equipment, base)) : undefined,
+            };
+        });
+    }
+
     ignoreItem(itemName: string): void {
         this.itemIgnored.emit(itemName);
     }
 
-    getEquipmentItems(): Array<{label: string, equipment: Equipment}> {
-        if (!this.set) return [];
-        
-        return [
-            { label: EQUIPMENT_LABELS.WEAPON, equipment: this.set.weapon },
-            { label: EQUIPMENT_LABELS.SHIELD, equipment: this.set.shield },
-            { label: EQUIPMENT_LABELS.ARMOUR, equipment: this.set.armour },
-            { label: EQUIPMENT_LABELS.HELMET, equipment: this.set.helmet },
-            { label: EQUIPMENT_LABELS.ACCESSORY, equipment: this.set.accessory }
-        ];
+    pinItem(itemName: string): void {
+        this.itemPinned.emit(itemName);
+    }
+
+    // shows the explanation of the slot, or hides it if it is already shown
+    explainSlot(slot: EquipmentSlot): void {
+        const shown = this.explainedSlot === slot && this.explanation.length > 0;
+        this.explainedSlot = shown ? undefined : slot;
+        if (!shown && this.explanation.length === 0) this.explain.emit();
+    }
+
+    getSlotExplanation(): SlotExplanation | undefined {
+        return this.explanation.find((explanation) => explanation.slot === this.explainedSlot);
+    }
+
+    getEquipmentItems(): Array<SetItem> {
+        return this.set ? getEquipmentItems(this.set) : [];
     }
 }
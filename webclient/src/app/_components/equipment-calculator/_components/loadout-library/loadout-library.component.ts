@@ -0,0 +1,86 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { MatChipInputEvent } from '@angular/material/chips';
+
+import { Loadout, LoadoutChanges } from '../../../../_types/loadout';
+import { downloadFile } from '../../../../_util/download';
+import { toBuildFile } from '../../_types/build-file';
+
+@Component({
+    selector: 'app-loadout-library',
+    templateUrl: './loadout-library.component.html',
+    styleUrls: ['./loadout-library.component.scss'],
+})
+export class LoadoutLibraryComponent {
+    @Input() loadouts: Array<Loadout> = [];
+    @Output() changed = new EventEmitter<{ id: number; changes: LoadoutChanges }>();
+    @Output() deleted = new EventEmitter<number>();
+    @Output() loaded = new EventEmitter<Loadout>();
+    @Output() compared = new EventEmitter<Loadout>();
+    // the content of a build file to import
+    @Output() imported = new EventEmitter<string>();
+
+    // only loadouts with this tag are listed
+    tagFilter?: string;
+    dragging = false;
+
+    allTags(): Array<string> {
+        return [...new Set(this.loadouts.flatMap(({ tags }) => tags))].sort();
+    }
+
+    filteredLoadouts(): Array<Loadout> {
+        const tagFilter = this.tagFilter;
+        return tagFilter ? this.loadouts.filter(({ tags }) => tags.includes(tagFilter)) : this.loadouts;
+    }
+
+    loadoutId(index: number, loadout: Loadout): number {
+        return loadout.id;
+    }
+
+    onNameChanged(loadout: Loadout, name: string): void {
+        if (name.trim()) this.changed.emit({ id: loadout.id, changes: { name: name.trim() } });
+    }
+
+    onNoteChanged(loadout: Loadout, note: string): void {
+        this.changed.emit({ id: loadout.id, changes: { note } });
+    }
+
+    addTag(loadout: Loadout, event: MatChipInputEvent): void {
+        const tag = event.value.trim();
+        if (tag && !loadout.tags.includes(tag)) {
+            this.changed.emit({ id: loadout.id, changes: { tags: [...loadout.tags, tag] } });
+        }
+        event.chipInput.clear();
+    }
+
+    removeTag(loadout: Loadout, tag: string): void {
+        this.changed.emit({ id: loadout.id, changes: { tags: loadout.tags.filter((t) => t !== tag) } });
+    }
+
+    exportBuilds(loadouts: Array<Loadout>, fileName = 'builds'): void {
+        downloadFile(`${fileName}.json`, JSON.stringify(toBuildFile(loadouts), null, 2), 'application/json');
+    }
+
+    onFileSelected(input: HTMLInputElement): void {
+        this.readFiles(input.files);
+        input.value = '';
+    }
+
+    onDragOver(event: DragEvent): void {
+        event.preventDefault();
+        this.dragging = true;
+    }
+
+    onDrop(event: DragEvent): void {
+        event.preventDefault();
+        this.dragging = false;
+        this.readFiles(event.dataTransfer?.files ?? null);
+    }
+
+    private readFiles(files: FileList | null): void {
+        Array.from(files ?? []).forEach((file) => {
+            const reader = new FileReader();
+            reader.onload = () => this.imported.emit(`${reader.result}`);
+            reader.readAsText(file);
+        });
+    }
+}
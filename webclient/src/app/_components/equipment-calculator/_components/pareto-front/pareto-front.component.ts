@@ -0,0 +1,86 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { ParetoPoint } from '../../../../_types/pareto-point';
+import { Stat, stats } from '../../../../_types/stat';
+import { EquipmentSet } from '../../../../_types/equipment-set';
+
+const WIDTH = 600;
+const HEIGHT = 320;
+const PADDING = 48;
+
+@Component({
+    selector: 'app-pareto-front',
+    templateUrl: './pareto-front.component.html',
+    styleUrls: ['./pareto-front.component.scss'],
+})
+export class ParetoFrontComponent {
+    @Input() xStat = Stat.AP;
+    @Input() yStat = Stat.VP;
+    @Input() points: Array<ParetoPoint> = [];
+    @Input() loading = false;
+    @Output() statsChanged = new EventEmitter<{ xStat: Stat; yStat: Stat }>();
+    @Output() calculate = new EventEmitter<void>();
+    @Output() setSelected = new EventEmitter<EquipmentSet>();
+
+    readonly WIDTH = WIDTH;
+    readonly HEIGHT = HEIGHT;
+    readonly PADDING = PADDING;
+
+    stats = stats;
+    selected?: ParetoPoint;
+
+    onXStatChanged(xStat: Stat): void {
+        this.statsChanged.emit({ xStat, yStat: this.yStat });
+    }
+
+    onYStatChanged(yStat: Stat): void {
+        this.statsChanged.emit({ xStat: this.xStat, yStat });
+    }
+
+    onCalculate(): void {
+        this.selected = undefined;
+        this.calculate.emit();
+    }
+
+    selectPoint(point: ParetoPoint): void {
+        this.selected = point;
+        this.setSelected.emit(point.set);
+    }
+
+    scaleX(value: number): number {
+        const [min, max] = this.range(this.points.map((point) => point.x));
+        return PADDING + ((value - min) / (max - min)) * (WIDTH - 2 * PADDING);
+    }
+
+    scaleY(value: number): number {
+        const [min, max] = this.range(this.points.map((point) => point.y));
+        return HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+    }
+
+    xRange(): [number, number] {
+        return this.range(this.points.map((point) => point.x));
+    }
+
+    yRange(): [number, number] {
+        return this.range(this.points.map((point) => point.y));
+    }
+
+    // points are sorted by x, so connecting them in order draws the front
+    frontLine(): string {
+        return this.points.map((point) => `${this.scaleX(point.x)},${this.scaleY(point.y)}`).join(' ');
+    }
+
+    describe(point: ParetoPoint): string {
+        const items = Object.values(point.set)
+            .map((equipment) => equipment.name)
+            .join(', ');
+        return `${this.xStat} ${point.x} / ${this.yStat} ${point.y}: ${items}`;
+    }
+
+    private range(values: Array<number>): [number, number] {
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        // a single point is drawn in the middle
+        return min === max ? [min - 1, max + 1] : [min, max];
+    }
+}
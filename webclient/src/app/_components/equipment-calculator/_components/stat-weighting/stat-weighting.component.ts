@@ -1,4 +1,4 @@
-import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
 import { FormControl, FormGroup } from '@angular/forms';
 import { tap } from 'rxjs';
 
@@ -14,6 +14,11 @@ import { StatWeightingFormData } from '../../_types/stat-weighting-form-data';
 export class StatWeightingComponent implements OnInit, OnDestroy {
     @Output() changed = new EventEmitter<StatWeightingFormData>();
 
+    // e.g. the weights of an opened permalink, not emitted again
+    @Input() set weighting(weighting: StatWeightingFormData) {
+        this.form.setValue(weighting, { emitEvent: false });
+    }
+
     form = new FormGroup({
         apWeight: new FormControl(0, [NUMBERS_ONLY]),
         vpWeight: new FormControl(0, [NUMBERS_ONLY]),
@@ -0,0 +1,102 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { UpgradeStep } from '../../../../_types/upgrade-step';
+import { Stat, stats } from '../../../../_types/stat';
+import { EquipmentSet, totalStat } from '../../../../_types/equipment-set';
+
+const WIDTH = 600;
+const HEIGHT = 320;
+const PADDING = 48;
+
+// the chart shows the weighted score if no stat is selected
+const SCORE = 'Wertung';
+
+@Component({
+    selector: 'app-upgrade-planner',
+    templateUrl: './upgrade-planner.component.html',
+    styleUrls: ['./upgrade-planner.component.scss'],
+})
+export class UpgradePlannerComponent {
+    @Input() steps: Array<UpgradeStep> = [];
+    @Input() schmiedekunst = 0;
+    @Input() loading = false;
+    @Output() calculate = new EventEmitter<void>();
+    @Output() setSelected = new EventEmitter<EquipmentSet>();
+
+    readonly WIDTH = WIDTH;
+    readonly HEIGHT = HEIGHT;
+    readonly PADDING = PADDING;
+    readonly SCORE = SCORE;
+
+    stats = stats;
+    chartSeries: Stat | typeof SCORE = SCORE;
+
+    value(step: UpgradeStep, series: Stat | typeof SCORE): number | undefined {
+        if (!step.best) return undefined;
+        return series === SCORE ? step.best.score : totalStat(step.best.set, series, this.schmiedekunst);
+    }
+
+    // the unlocked items the best set of the step actually uses
+    usedUnlockedItems(step: UpgradeStep): Array<string> {
+        const names = step.best ? Object.values(step.best.set).map((equipment) => equipment.name) : [];
+        return step.unlockedItems.filter((name) => names.includes(name));
+    }
+
+    // the change of the value compared to the previous level
+    difference(index: number, series: Stat | typeof SCORE): number | undefined {
+        if (index === 0) return undefined;
+        const current = this.value(this.steps[index], series);
+        const previous = this.value(this.steps[index - 1], series);
+        return current === undefined || previous === undefined ? undefined : current - previous;
+    }
+
+    selectStep(step: UpgradeStep): void {
+        if (step.best) this.setSelected.emit(step.best.set);
+    }
+
+    chartSteps(): Array<UpgradeStep> {
+        return this.steps.filter((step) => !!step.best);
+    }
+
+    scaleX(waffenschmiede: number): number {
+        const [min, max] = this.xRange();
+        return PADDING + ((waffenschmiede - min) / (max - min)) * (WIDTH - 2 * PADDING);
+    }
+
+    scaleY(value: number): number {
+        const [min, max] = this.yRange();
+        return HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+    }
+
+    xRange(): [number, number] {
+        return this.range(this.steps.map((step) => step.waffenschmiede));
+    }
+
+    yRange(): [number, number] {
+        return this.range(this.chartSteps().map((step) => this.value(step, this.chartSeries) ?? 0));
+    }
+
+    line(): string {
+        return this.chartSteps()
+            .map(
+                (step) => `${this.scaleX(step.waffenschmiede)},${this.scaleY(this.value(step, this.chartSeries) ?? 0)}`,
+            )
+            .join(' ');
+    }
+
+    describe(step: UpgradeStep): string {
+        const items = step.best
+            ? Object.values(step.best.set)
+                  .map((equipment) => equipment.name)
+                  .join(', ')
+            : '';
+        return `WS ${step.waffenschmiede}, ${this.chartSeries} ${this.value(step, this.chartSeries)}: ${items}`;
+    }
+
+    private range(values: Array<number>): [number, number] {
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        // a single level is drawn in the middle
+        return min === max ? [min - 1, max + 1] : [min, max];
+    }
+}
@@ -3,7 +3,9 @@ import {
     asyncScheduler,
     BehaviorSubject,
     catchError,
+    concat,
     concatMap,
+    defer,
     map,
     mergeMap,
     Observable,
@@ -18,60 +20,162 @@ import {
 import { EquipmentState, errorState, IDLE_STATE, LOADING_STATE } from '../_types/equipment-state';
 import { EquipmentService } from '../../../_services/equipment.service';
 import { Action } from '../../../_types/action';
-import { Error } from '../../../_types/error';
+import { Error, isError } from '../../../_types/error';
 import { UnitService } from '../../../_services/unit.service';
 import { Unit } from '../../../_types/unit';
-import { EquipmentSet } from '../../../_types/equipment-set';
+import { EquipmentSet, weightedTotal } from '../../../_types/equipment-set';
 import {
     AddIgnoredItem,
+    AddPinnedItem,
     CalculateEquipment,
+    CalculateParetoFront,
+    CalculateUpgradePlan,
+    CalculateCarryWeightBreakpoints,
+    ExplainSet,
     ClearIgnoredItems,
+    ClearWarnings,
+    ClearPinnedItems,
+    CompareLoadout,
+    DeleteLoadout,
+    ImportBuilds,
+    LoadCalculatorLink,
+    LoadEquipmentSet,
+    LoadLoadout,
     MarkForComparison,
-    RemoveCompareSet,
+    MoveComparedSet,
+    Redo,
+    RemoveComparedSet,
     RemoveIgnoredItem,
+    RemovePinnedItem,
+    SaveLoadout,
     UpdateAttackElement,
     UpdateCarryWeight,
+    UpdateCarryWeightRange,
     UpdateDefenseElement,
+    UpdateInventory,
+    UpdateLoadout,
+    UpdateOnlyOwnedItems,
+    UpdateParetoStats,
     UpdateRanged,
     UpdateRangedForbidden,
     UpdateRangedRequired,
+    UpdateRankingSize,
     UpdateSchmiedekunst,
+    UpdateRelativeScore,
     UpdateSelectedUnit,
+    UpdateStatBounds,
     UpdateStatWeightingData,
     UpdateUnitElement,
     UpdateWaffenschmiede,
+    Undo,
 } from '../_types/equipment-calculator-action';
 import { StatWeightingFormData } from '../_types/stat-weighting-form-data';
 import { InvalidUnitError } from '../../../_types/invalid-unit-error';
 import { Element } from '../../../_types/element';
 import { StorageService } from '../../../_services/storage.service';
-import { ErrorType } from '../../../_types/error-type';
 import { ElementMismatchError } from '../../../_types/element-mismatch-error';
-import { InvalidItemCombinationError } from '../../../_types/invalid-item-combination-error';
+import { attackElementAchievable, isValidElementChoice } from '../../../_util/element-rules';
+import { InternalError } from '../../../_types/internal-error';
+import { EquipmentRequest } from '../../../_types/equipment-request';
+import { EquipmentResult } from '../../../_types/equipment-result';
+import { Stat } from '../../../_types/stat';
+import { StatBounds } from '../../../_types/stat-bounds';
+import { findEquipment, findEquipmentSlot } from '../../../_types/equipment-slot';
+import { getPinnedItemsError } from '../../../_util/pinned-items';
+import { getUnownedItems, Inventory } from '../../../_types/inventory';
+import { getBaseStats } from '../../../_types/base-stats';
+import { CalculatorLink } from '../_types/calculator-link';
+import { getCalculatorInputs, getCalculatorLinkOptions } from '../../../_types/calculator-inputs';
+import { getNextLoadoutId, Loadout, LoadoutChanges } from '../../../_types/loadout';
+import { InvalidInputError } from '../../../_types/invalid-input-error';
+import { readBuildFile } from '../_types/build-file';
+import { addComparedSet, moveComparedSet } from '../_types/compared-set';
+import {
+    fromHistoryEntry,
+    HistoryEntry,
+    PersistedInput,
+    pushHistory,
+    sameInputs,
+    toHistoryEntry,
+} from '../_types/calculator-history';
+
+// actions that change the inputs of the calculator and can be undone
+const UNDOABLE_ACTIONS = [
+    UpdateSelectedUnit,
+    UpdateCarryWeight,
+    UpdateUnitElement,
+    UpdateRanged,
+    UpdateAttackElement,
+    UpdateDefenseElement,
+    UpdateRangedRequired,
+    UpdateRangedForbidden,
+    UpdateStatWeightingData,
+    UpdateRelativeScore,
+    UpdateStatBounds,
+    UpdateWaffenschmiede,
+    UpdateSchmiedekunst,
+    AddIgnoredItem,
+    RemoveIgnoredItem,
+    ClearIgnoredItems,
+    AddPinnedItem,
+    RemovePinnedItem,
+    ClearPinnedItems,
+    LoadCalculatorLink,
+    LoadLoadout,
+];
+
+// number inputs change with every typed digit, their changes within this time are undone together
+const TYPED_ACTIONS = [
+    UpdateCarryWeight,
+    UpdateStatWeightingData,
+    UpdateStatBounds,
+    UpdateWaffenschmiede,
+    UpdateSchmiedekunst,
+];
+const HISTORY_MERGE_TIME = 1000;
+
+// actions that save both item lists to the storage
+const ITEM_LIST_ACTIONS = [
+    AddIgnoredItem,
+    RemoveIgnoredItem,
+    ClearIgnoredItems,
+    AddPinnedItem,
+    RemovePinnedItem,
+    ClearPinnedItems,
+];
 
 @Injectable()
 export class EquipmentStore {
     state$: Observable<EquipmentState>;
     private _state$: BehaviorSubject<EquipmentState>;
     private _actions$: Subject<Action> = new Subject<Action>();
+    private lastUndoable?: { action: Action; time: number };
 
     constructor(
         private equipmentService: EquipmentService,
         private storageService: StorageService,
         private unitService: UnitService,
     ) {
-        this._state$ = new BehaviorSubject<EquipmentState>(new EquipmentState());
+        // ignored and pinned items are shared with the item catalog
+        const initialState = new EquipmentState();
+        initialState.ignoredItems = storageService.getIgnoredItems();
+        initialState.pinnedItems = storageService.getPinnedItems();
+        initialState.loadouts = storageService.getLoadouts();
+        initialState.waffenschmiede = storageService.getWaffenschmiede();
+        initialState.schmiedekunst = storageService.getSchmiedekunst();
+        this._state$ = new BehaviorSubject<EquipmentState>(initialState);
         this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
         this._actions$
             .pipe(
                 observeOn(asyncScheduler),
-                concatMap((action) => this.handleAction(action)),
+                concatMap((action) => this.withHistory(action, this.handleAction(action))),
             )
             .subscribe((stateUpdate) => this.updateState(stateUpdate));
 
-        const savedWaffenschmiede = storageService.getWaffenschmiede();
-        const savedSchmiedekunst = storageService.getSchmiedekunst();
-        this.dispatch(new UpdateWaffenschmiede(savedWaffenschmiede), new UpdateSchmiedekunst(savedSchmiedekunst));
+        this.dispatch(
+            new UpdateInventory(storageService.getInventory()),
+            new UpdateOnlyOwnedItems(storageService.getOnlyOwnedItems()),
+        );
     }
 
     get state(): EquipmentState {
@@ -86,6 +190,14 @@ export class EquipmentStore {
         this.dispatch(new UpdateStatWeightingData(data));
     }
 
+    updateRelativeScore(relativeScore: boolean): void {
+        this.dispatch(new UpdateRelativeScore(relativeScore));
+    }
+
+    updateStatBounds(statBounds: StatBounds): void {
+        this.dispatch(new UpdateStatBounds(statBounds));
+    }
+
     updateCarryWeight(carryWeight: number): void {
         this.dispatch(new UpdateCarryWeight(carryWeight));
     }
@@ -110,6 +222,10 @@ export class EquipmentStore {
         this.dispatch(new UpdateRangedRequired(rangedRequired));
     }
 
+    updateRankingSize(rankingSize: number): void {
+        this.dispatch(new UpdateRankingSize(rankingSize));
+    }
+
     updateSchmiedekunst(schmiedekunst: number): void {
         this.dispatch(new UpdateSchmiedekunst(schmiedekunst));
     }
@@ -130,8 +246,12 @@ export class EquipmentStore {
         this.dispatch(new MarkForComparison(set));
     }
 
-    removeCompareSet(): void {
-        this.dispatch(new RemoveCompareSet());
+    removeComparedSet(id: number): void {
+        this.dispatch(new RemoveComparedSet(id));
+    }
+
+    moveComparedSet(id: number, index: number): void {
+        this.dispatch(new MoveComparedSet(id, index));
     }
 
     addIgnoredItem(itemName: string): void {
@@ -146,6 +266,94 @@ export class EquipmentStore {
         this.dispatch(new ClearIgnoredItems());
     }
 
+    addPinnedItem(itemName: string): void {
+        this.dispatch(new AddPinnedItem(itemName));
+    }
+
+    removePinnedItem(itemName: string): void {
+        this.dispatch(new RemovePinnedItem(itemName));
+    }
+
+    clearPinnedItems(): void {
+        this.dispatch(new ClearPinnedItems());
+    }
+
+    calculateUpgradePlan(): void {
+        this.dispatch(new CalculateUpgradePlan());
+    }
+
+    updateCarryWeightRange(carryWeightRange: number): void {
+        this.dispatch(new UpdateCarryWeightRange(carryWeightRange));
+    }
+
+    calculateCarryWeightBreakpoints(): void {
+        this.dispatch(new CalculateCarryWeightBreakpoints());
+    }
+
+    explainSet(set?: EquipmentSet): void {
+        this.dispatch(new ExplainSet(set));
+    }
+
+    updateInventory(inventory: Inventory): void {
+        this.dispatch(new UpdateInventory(inventory));
+    }
+
+    updateOnlyOwnedItems(onlyOwnedItems: boolean): void {
+        this.dispatch(new UpdateOnlyOwnedItems(onlyOwnedItems));
+    }
+
+    updateParetoStats(xStat: Stat, yStat: Stat): void {
+        this.dispatch(new UpdateParetoStats(xStat, yStat));
+    }
+
+    calculateParetoFront(): void {
+        this.dispatch(new CalculateParetoFront());
+    }
+
+    loadEquipmentSet(set: EquipmentSet): void {
+        this.dispatch(new LoadEquipmentSet(set));
+    }
+
+    loadCalculatorLink(link: CalculatorLink): void {
+        this.dispatch(new LoadCalculatorLink(link));
+    }
+
+    clearWarnings(): void {
+        this.dispatch(new ClearWarnings());
+    }
+
+    saveLoadout(set: EquipmentSet): void {
+        this.dispatch(new SaveLoadout(set));
+    }
+
+    updateLoadout(id: number, changes: LoadoutChanges): void {
+        this.dispatch(new UpdateLoadout(id, changes));
+    }
+
+    deleteLoadout(id: number): void {
+        this.dispatch(new DeleteLoadout(id));
+    }
+
+    loadLoadout(loadout: Loadout): void {
+        this.dispatch(new LoadLoadout(loadout));
+    }
+
+    compareLoadout(loadout: Loadout): void {
+        this.dispatch(new CompareLoadout(loadout));
+    }
+
+    importBuilds(content: string): void {
+        this.dispatch(new ImportBuilds(content));
+    }
+
+    undo(): void {
+        this.dispatch(new Undo());
+    }
+
+    redo(): void {
+        this.dispatch(new Redo());
+    }
+
     private dispatch(...actions: Array<Action>): void {
         actions.forEach((action) => this._actions$.next(action));
     }
@@ -162,103 +370,61 @@ export class EquipmentStore {
         return this.state$.pipe(
             take(1),
             mergeMap((state) => {
+                // impossible element targets are rejected without asking the backend
+                if (
+                    state.selectedUnit &&
+                    !isValidElementChoice(state.element, state.elementAttack, state.elementDefense)
+                ) {
+                    return of(errorState(new ElementMismatchError()));
+                }
                 return state.selectedUnit
-                    ? this.equipmentService
-                          .getEquipment(
-                              state.selectedUnit,
-                              state.carryWeight,
-                              state.element,
-                              state.ranged,
-                              state.waffenschmiede,
-                              state.rangedRequired,
-                              state.rangedForbidden,
-                              state.apWeight,
-                              state.vpWeight,
-                              state.hpWeight,
-                              state.mpWeight,
-                              state.elementAttack,
-                              state.elementDefense,
-                              state.ignoredItems,
-                          )
-                          .pipe(
-                              take(1),
-                              map((set: EquipmentSet) => ({
-                                  set,
-                                  ...IDLE_STATE,
-                              })),
-                              startWith(LOADING_STATE),
-                              catchError((error) => {
-                                  console.error('Error calculating equipment set:', error);
-                                  console.error('Error details:', {
-                                      status: error.status,
-                                      statusText: error.statusText,
-                                      message: error.message,
-                                      errorBody: error.error,
-                                      fullError: error,
-                                  });
-
-                                  // Handle HTTP error responses
-                                  if (error.status === 400) {
-                                      // Bad request - likely element mismatch or invalid combination
-                                      // Try different ways to extract the error message
-                                      let errorMessage =
-                                          error.error?.message || // Spring Boot usually puts message here
-                                          error.error?.error || // Sometimes it's nested
-                                          error.error || // Sometimes error body is the message
-                                          error.statusText || // HTTP status text
-                                          error.message || // Generic error message
-                                          'Ein unbekannter Fehler ist aufgetreten.';
-
-                                      console.log('Extracted error message:', errorMessage);
-
-                                      // If we got "Bad Request" as message, it means we didn't extract properly
-                                      if (errorMessage === 'Bad Request') {
-                                          errorMessage = 'Die gewählte Konfiguration ist ungültig.';
-                                      }
-
-                                      if (errorMessage?.includes('Element') || errorMessage?.includes('element')) {
-                                          return of(errorState(new ElementMismatchError(errorMessage)));
-                                      } else if (
-                                          errorMessage?.includes('Ausr') ||
-                                          errorMessage?.includes('Kombination')
-                                      ) {
-                                          return of(errorState(new InvalidItemCombinationError(errorMessage)));
-                                      } else {
-                                          return of(errorState(new InvalidItemCombinationError(errorMessage)));
-                                      }
-                                  }
-
-                                  // Handle 500 errors
-                                  if (error.status === 500) {
-                                      const errorMessage =
-                                          error.error?.message || error.error || 'Ein Server-Fehler ist aufgetreten.';
-                                      return of(
-                                          errorState({
-                                              type: ErrorType.INVALID_INPUT,
-                                              message: errorMessage,
-                                          } as Error),
-                                      );
-                                  }
-
-                                  // Fallback error handling
-                                  const errorMessage =
-                                      error.error?.message ||
-                                      error.message ||
-                                      'Ein unbekannter Fehler ist aufgetreten.';
-                                  console.log('Fallback error message:', errorMessage);
-                                  return of(
-                                      errorState({
-                                          type: ErrorType.INVALID_INPUT,
-                                          message: errorMessage,
-                                      } as Error),
-                                  );
-                              }),
-                          )
+                    ? this.equipmentService.getEquipment(this.toEquipmentRequest(state)).pipe(
+                          take(1),
+                          map(({ sets, engine }: EquipmentResult) => ({
+                              results: sets,
+                              engine,
+                              ...IDLE_STATE,
+                          })),
+                          startWith(LOADING_STATE),
+                          catchError((error) => {
+                              console.error('Error calculating equipment set:', error);
+                              // the API and the client-side solver both report typed errors
+                              return of(errorState(isError(error) ? error : new InternalError()));
+                          }),
+                      )
                     : this.errorState(new InvalidUnitError('Keine Einheit ausgewählt.'));
             }),
         );
     }
 
+    private toEquipmentRequest(state: EquipmentState): EquipmentRequest {
+        return {
+            unitCarryWeight: state.carryWeight,
+            unitElement: state.element,
+            unitRanged: state.ranged,
+            waffenschmiede: state.waffenschmiede,
+            schmiedekunst: state.schmiedekunst,
+            rangedRequired: state.rangedRequired,
+            rangedForbidden: state.rangedForbidden,
+            elementAttack: state.elementAttack,
+            elementDefense: state.elementDefense,
+            apWeight: state.apWeight,
+            vpWeight: state.vpWeight,
+            hpWeight: state.hpWeight,
+            mpWeight: state.mpWeight,
+            ...state.statBounds,
+            ...(state.relativeScore ? state.baseStats : undefined),
+            ignoredItems: state.onlyOwnedItems
+                ? [
+                      ...state.ignoredItems,
+                      ...getUnownedItems(state.inventory).filter((item) => !state.pinnedItems.includes(item)),
+                  ]
+                : state.ignoredItems,
+            pinnedItems: state.pinnedItems,
+            limit: state.rankingSize,
+        };
+    }
+
     private onUpdateWaffenschmiede(action: UpdateWaffenschmiede): Observable<Partial<EquipmentState>> {
         const { waffenschmiede } = action;
         return this.state$.pipe(
@@ -302,9 +468,33 @@ export class EquipmentStore {
         );
     }
 
+    private onUpdateRelativeScore(action: UpdateRelativeScore): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                relativeScore: action.relativeScore,
+                ...IDLE_STATE,
+            })),
+        );
+    }
+
+    private onUpdateStatBounds(action: UpdateStatBounds): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                statBounds: action.statBounds,
+                ...IDLE_STATE,
+            })),
+        );
+    }
+
     private handleAction(action: Action): Observable<Partial<EquipmentState>> {
         if (action instanceof CalculateEquipment) return this.onCalculateEquipment();
         if (action instanceof UpdateStatWeightingData) return this.onUpdateStatWeightingData(action);
+        if (action instanceof UpdateRelativeScore) return this.onUpdateRelativeScore(action);
+        if (action instanceof UpdateStatBounds) return this.onUpdateStatBounds(action);
         if (action instanceof UpdateWaffenschmiede) return this.onUpdateWaffenschmiede(action);
         if (action instanceof UpdateSchmiedekunst) return this.onUpdateSchmiedekunst(action);
         if (action instanceof UpdateSelectedUnit) return this.onUpdateSelectedUnit(action);
@@ -315,15 +505,67 @@ export class EquipmentStore {
         if (action instanceof UpdateDefenseElement) return this.onUpdateDefenseElement(action);
         if (action instanceof UpdateRangedRequired) return this.onUpdatedRangedRequired(action);
         if (action instanceof UpdateRangedForbidden) return this.onUpdateRangedForbidden(action);
+        if (action instanceof UpdateRankingSize) return this.onUpdateRankingSize(action);
         if (action instanceof MarkForComparison) return this.onMarkForComparison(action);
-        if (action instanceof RemoveCompareSet) return this.onRemoveCompareSet();
+        if (action instanceof RemoveComparedSet) return this.onRemoveComparedSet(action);
+        if (action instanceof MoveComparedSet) return this.onMoveComparedSet(action);
         if (action instanceof AddIgnoredItem) return this.onAddIgnoredItem(action);
         if (action instanceof RemoveIgnoredItem) return this.onRemoveIgnoredItem(action);
         if (action instanceof ClearIgnoredItems) return this.onClearIgnoredItems();
+        if (action instanceof AddPinnedItem) return this.onAddPinnedItem(action);
+        if (action instanceof RemovePinnedItem) return this.onRemovePinnedItem(action);
+        if (action instanceof ClearPinnedItems) return this.onClearPinnedItems();
+        if (action instanceof UpdateInventory) return this.onUpdateInventory(action);
+        if (action instanceof UpdateOnlyOwnedItems) return this.onUpdateOnlyOwnedItems(action);
+        if (action instanceof UpdateParetoStats) return this.onUpdateParetoStats(action);
+        if (action instanceof CalculateParetoFront) return this.onCalculateParetoFront();
+        if (action instanceof CalculateUpgradePlan) return this.onCalculateUpgradePlan();
+        if (action instanceof UpdateCarryWeightRange) return this.onUpdateCarryWeightRange(action);
+        if (action instanceof CalculateCarryWeightBreakpoints) return this.onCalculateCarryWeightBreakpoints();
+        if (action instanceof ExplainSet) return this.onExplainSet(action);
+        if (action instanceof LoadEquipmentSet) return this.onLoadEquipmentSet(action);
+        if (action instanceof LoadCalculatorLink) return this.onLoadCalculatorLink(action);
+        if (action instanceof ClearWarnings) return this.onClearWarnings();
+        if (action instanceof SaveLoadout) return this.onSaveLoadout(action);
+        if (action instanceof UpdateLoadout) return this.onUpdateLoadout(action);
+        if (action instanceof DeleteLoadout) return this.onDeleteLoadout(action);
+        if (action instanceof LoadLoadout) return this.onLoadLoadout(action);
+        if (action instanceof CompareLoadout) return this.onCompareLoadout(action);
+        if (action instanceof ImportBuilds) return this.onImportBuilds(action);
+        if (action instanceof Undo) return this.onUndo();
+        if (action instanceof Redo) return this.onRedo();
 
         return of(IDLE_STATE);
     }
 
+    // records the inputs before the first update of an undoable action that changes them
+    private withHistory(
+        action: Action,
+        update$: Observable<Partial<EquipmentState>>,
+    ): Observable<Partial<EquipmentState>> {
+        if (!UNDOABLE_ACTIONS.some((actionType) => action instanceof actionType)) return update$;
+        return defer(() => {
+            const previous = toHistoryEntry(this.state);
+            let recorded = false;
+            return update$.pipe(
+                map((update) => {
+                    if (recorded || sameInputs(previous, toHistoryEntry({ ...this.state, ...update }))) return update;
+                    recorded = true;
+                    const now = Date.now();
+                    const merged =
+                        TYPED_ACTIONS.some((actionType) => action instanceof actionType) &&
+                        this.lastUndoable?.action.constructor === action.constructor &&
+                        now - this.lastUndoable.time < HISTORY_MERGE_TIME &&
+                        this.state.history.past.length > 0;
+                    this.lastUndoable = { action, time: now };
+                    if (merged) return update;
+                    const entry = { ...previous, persistedInputs: this.getPersistedInputs(action) };
+                    return { ...update, history: pushHistory(this.state.history, entry) };
+                }),
+            );
+        });
+    }
+
     private errorState(error: Error): Observable<Partial<EquipmentState>> {
         return this.state$.pipe(
             take(1),
@@ -339,6 +581,7 @@ export class EquipmentStore {
                     return of({
                         ...state,
                         selectedUnit: undefined,
+                        baseStats: undefined,
                         carryWeight: 0,
                         element: Element.NONE,
                         ranged: false,
@@ -352,8 +595,9 @@ export class EquipmentStore {
                     map((unit: Unit | undefined) => ({
                         ...state,
                         selectedUnit: action.selectedUnit,
+                        baseStats: unit && getBaseStats(unit),
                         carryWeight: unit?.carryWeight || 0,
-                        element: unit?.element || Element.NONE,
+                        ...this.withReachableElements(state, unit?.element || Element.NONE),
                         ranged: unit?.ranged || false,
                         rangedRequired: false,
                         rangedForbidden: false,
@@ -378,11 +622,23 @@ export class EquipmentStore {
             take(1),
             map((state) => ({
                 ...state,
-                element: action.element,
+                ...this.withReachableElements(state, action.element),
             })),
         );
     }
 
+    // drops the element targets the new unit element can't reach
+    private withReachableElements(
+        state: EquipmentState,
+        element: Element,
+    ): Pick<EquipmentState, 'element' | 'elementAttack' | 'elementDefense'> {
+        const elementAttack = attackElementAchievable(element, state.elementAttack) ? state.elementAttack : undefined;
+        const elementDefense = isValidElementChoice(element, elementAttack, state.elementDefense)
+            ? state.elementDefense
+            : undefined;
+        return { element, elementAttack, elementDefense };
+    }
+
     private onUpdateRanged(action: UpdateRanged): Observable<Partial<EquipmentState>> {
         return this.state$.pipe(
             take(1),
@@ -437,23 +693,47 @@ export class EquipmentStore {
         );
     }
 
+    private onUpdateRankingSize(action: UpdateRankingSize): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                rankingSize: action.rankingSize,
+            })),
+        );
+    }
+
     private onMarkForComparison(action: MarkForComparison): Observable<Partial<EquipmentState>> {
         return this.state$.pipe(
             take(1),
             map((state) => ({
                 ...state,
-                set: undefined,
-                compareSet: action.set,
+                comparedSets: addComparedSet(state.comparedSets, {
+                    unitName: state.selectedUnit,
+                    unitElement: state.element,
+                    schmiedekunst: state.schmiedekunst,
+                    set: action.set,
+                }),
+            })),
+        );
+    }
+
+    private onRemoveComparedSet(action: RemoveComparedSet): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                comparedSets: state.comparedSets.filter((comparedSet) => comparedSet.id !== action.id),
             })),
         );
     }
 
-    private onRemoveCompareSet(): Observable<Partial<EquipmentState>> {
+    private onMoveComparedSet(action: MoveComparedSet): Observable<Partial<EquipmentState>> {
         return this.state$.pipe(
             take(1),
             map((state) => ({
                 ...state,
-                compareSet: undefined,
+                comparedSets: moveComparedSet(state.comparedSets, action.id, action.index),
             })),
         );
     }
@@ -469,9 +749,11 @@ export class EquipmentStore {
                 return {
                     ...state,
                     ignoredItems,
+                    pinnedItems: state.pinnedItems.filter((item) => item !== action.itemName),
                     ...IDLE_STATE,
                 };
             }),
+            tap((update) => this.saveItemLists(update)),
         );
     }
 
@@ -483,6 +765,7 @@ export class EquipmentStore {
                 ignoredItems: state.ignoredItems.filter((item) => item !== action.itemName),
                 ...IDLE_STATE,
             })),
+            tap((update) => this.saveItemLists(update)),
         );
     }
 
@@ -494,6 +777,480 @@ export class EquipmentStore {
                 ignoredItems: [],
                 ...IDLE_STATE,
             })),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    // A pinned item replaces the item pinned to the same slot before and is removed from the ignore list
+    private onAddPinnedItem(action: AddPinnedItem): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                const slot = findEquipmentSlot(action.itemName);
+                const pinnedItems = [
+                    ...state.pinnedItems.filter((item) => findEquipmentSlot(item) !== slot),
+                    action.itemName,
+                ];
+                const error = getPinnedItemsError({ ...this.toEquipmentRequest(state), pinnedItems });
+                if (error) return this.errorState(error);
+
+                return of({
+                    ...state,
+                    pinnedItems,
+                    ignoredItems: state.ignoredItems.filter((item) => item !== action.itemName),
+                    ...IDLE_STATE,
+                });
+            }),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    private onRemovePinnedItem(action: RemovePinnedItem): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                pinnedItems: state.pinnedItems.filter((item) => item !== action.itemName),
+                ...IDLE_STATE,
+            })),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    private onClearPinnedItems(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                pinnedItems: [],
+                ...IDLE_STATE,
+            })),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    private saveItemLists({ ignoredItems, pinnedItems }: Partial<EquipmentState>): void {
+        if (ignoredItems) this.storageService.saveIgnoredItems(ignoredItems);
+        if (pinnedItems) this.storageService.savePinnedItems(pinnedItems);
+    }
+
+    private onUpdateInventory(action: UpdateInventory): Observable<Partial<EquipmentState>> {
+        const { inventory } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                inventory,
+                ...IDLE_STATE,
+            })),
+            tap(() => {
+                this.storageService.saveInventory(inventory);
+            }),
+        );
+    }
+
+    private onUpdateOnlyOwnedItems(action: UpdateOnlyOwnedItems): Observable<Partial<EquipmentState>> {
+        const { onlyOwnedItems } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                onlyOwnedItems,
+                ...IDLE_STATE,
+            })),
+            tap(() => {
+                this.storageService.saveOnlyOwnedItems(onlyOwnedItems);
+            }),
+        );
+    }
+
+    private onUpdateParetoStats(action: UpdateParetoStats): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                paretoXStat: action.xStat,
+                paretoYStat: action.yStat,
+                paretoFront: [],
+            })),
+        );
+    }
+
+    private onCalculateParetoFront(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                if (!state.selectedUnit) return this.errorState(new InvalidUnitError('Keine Einheit ausgewählt.'));
+
+                return this.equipmentService
+                    .getParetoFront(this.toEquipmentRequest(state), state.paretoXStat, state.paretoYStat)
+                    .pipe(
+                        take(1),
+                        map((paretoFront) => ({
+                            paretoFront,
+                            ...IDLE_STATE,
+                        })),
+                        startWith(LOADING_STATE),
+                        catchError((error) => {
+                            console.error('Error calculating pareto front:', error);
+                            return of(
+                                errorState(
+                                    isError(error)
+                                        ? error
+                                        : new InternalError('Die Pareto-Front konnte nicht berechnet werden.'),
+                                ),
+                            );
+                        }),
+                    );
+            }),
+        );
+    }
+
+    private onCalculateUpgradePlan(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                if (!state.selectedUnit) return this.errorState(new InvalidUnitError('Keine Einheit ausgewählt.'));
+
+                return this.equipmentService.getUpgradePlan(this.toEquipmentRequest(state)).pipe(
+                    take(1),
+                    map((upgradePlan) => ({
+                        upgradePlan,
+                        ...IDLE_STATE,
+                    })),
+                    startWith(LOADING_STATE),
+                    catchError((error) => {
+                        console.error('Error calculating upgrade plan:', error);
+                        return of(
+                            errorState(
+                                isError(error)
+                                    ? error
+                                    : new InternalError('Der Ausbauplan konnte nicht berechnet werden.'),
+                            ),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    private onUpdateCarryWeightRange(action: UpdateCarryWeightRange): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                carryWeightRange: action.carryWeightRange,
+                carryWeightBreakpoints: [],
+            })),
+        );
+    }
+
+    private onCalculateCarryWeightBreakpoints(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                if (!state.selectedUnit) return this.errorState(new InvalidUnitError('Keine Einheit ausgewählt.'));
+
+                const from = Math.max(state.carryWeight - state.carryWeightRange, 0);
+                const to = state.carryWeight + state.carryWeightRange;
+                return this.equipmentService.getCarryWeightBreakpoints(this.toEquipmentRequest(state), from, to).pipe(
+                    take(1),
+                    map((carryWeightBreakpoints) => ({
+                        carryWeightBreakpoints,
+                        ...IDLE_STATE,
+                    })),
+                    startWith(LOADING_STATE),
+                    catchError((error) => {
+                        console.error('Error calculating carry weight breakpoints:', error);
+                        return of(
+                            errorState(
+                                isError(error)
+                                    ? error
+                                    : new InternalError('Die Tragkraft-Analyse konnte nicht berechnet werden.'),
+                            ),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    private onExplainSet(action: ExplainSet): Observable<Partial<EquipmentState>> {
+        const { set } = action;
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) => {
+                if (!set) return of({ explainedSet: undefined, setExplanation: [] });
+
+                return this.equipmentService.getSetExplanation(this.toEquipmentRequest(state), set).pipe(
+                    take(1),
+                    map((setExplanation) => ({
+                        explainedSet: set,
+                        setExplanation,
+                        ...IDLE_STATE,
+                    })),
+                    catchError((error) => {
+                        console.error('Error explaining set:', error);
+                        return of(
+                            errorState(
+                                isError(error) ? error : new InternalError('Das Set konnte nicht erklärt werden.'),
+                            ),
+                        );
+                    }),
+                );
+            }),
+        );
+    }
+
+    private onLoadEquipmentSet(action: LoadEquipmentSet): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                results: [
+                    {
+                        set: action.set,
+                        score: weightedTotal(action.set, this.toEquipmentRequest(state), state.schmiedekunst),
+                    },
+                ],
+                engine: undefined,
+            })),
+        );
+    }
+
+    // the link is not saved, the stored Waffenschmiede and ignored items of the user stay untouched
+    private onLoadCalculatorLink({ link }: LoadCalculatorLink): Observable<Partial<EquipmentState>> {
+        return this.withLinkInputs(link).pipe(
+            // opening a link reproduces the calculation of its sender
+            mergeMap((update) =>
+                link.selectedUnit && update.selectedUnit === link.selectedUnit
+                    ? concat(of(update), this.onCalculateEquipment())
+                    : of(update),
+            ),
+        );
+    }
+
+    // applies the inputs of a permalink or loadout, warns about unit and item names that are unknown
+    private withLinkInputs(link: CalculatorLink): Observable<EquipmentState> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                (link.selectedUnit ? this.unitService.getUnitByName(link.selectedUnit) : of(undefined)).pipe(
+                    take(1),
+                    map((unit: Unit | undefined) => {
+                        const warnings: Array<string> = [];
+                        if (link.selectedUnit && !unit) {
+                            warnings.push(`Die Einheit "${link.selectedUnit}" ist unbekannt.`);
+                        }
+                        const unknownItems = (link.ignoredItems ?? []).filter((name) => !findEquipment(name));
+                        if (unknownItems.length > 0) {
+                            warnings.push(`Unbekannte Gegenstände werden nicht ignoriert: ${unknownItems.join(', ')}.`);
+                        }
+                        const unknownPinnedItems = (link.pinnedItems ?? []).filter((name) => !findEquipment(name));
+                        if (unknownPinnedItems.length > 0) {
+                            warnings.push(
+                                `Unbekannte Gegenstände werden nicht fixiert: ${unknownPinnedItems.join(', ')}.`,
+                            );
+                        }
+                        return {
+                            ...state,
+                            selectedUnit: unit ? link.selectedUnit : state.selectedUnit,
+                            baseStats: unit ? getBaseStats(unit) : state.baseStats,
+                            carryWeight: link.carryWeight ?? unit?.carryWeight ?? state.carryWeight,
+                            element: link.element ?? unit?.element ?? state.element,
+                            ranged: link.ranged ?? unit?.ranged ?? state.ranged,
+                            rangedRequired: link.rangedRequired ?? (unit ? false : state.rangedRequired),
+                            rangedForbidden: link.rangedForbidden ?? (unit ? false : state.rangedForbidden),
+                            elementAttack: link.elementAttack,
+                            elementDefense: link.elementDefense,
+                            apWeight: link.apWeight ?? state.apWeight,
+                            vpWeight: link.vpWeight ?? state.vpWeight,
+                            hpWeight: link.hpWeight ?? state.hpWeight,
+                            mpWeight: link.mpWeight ?? state.mpWeight,
+                            waffenschmiede: link.waffenschmiede ?? state.waffenschmiede,
+                            schmiedekunst: link.schmiedekunst ?? state.schmiedekunst,
+                            ignoredItems:
+                                link.ignoredItems?.filter((name) => !!findEquipment(name)) ?? state.ignoredItems,
+                            pinnedItems: link.pinnedItems?.filter((name) => !!findEquipment(name)) ?? state.pinnedItems,
+                            statBounds: link.statBounds ?? state.statBounds,
+                            onlyOwnedItems: link.onlyOwnedItems ?? state.onlyOwnedItems,
+                            relativeScore: link.relativeScore ?? state.relativeScore,
+                            rankingSize: link.rankingSize ?? state.rankingSize,
+                            warnings,
+                        };
+                    }),
+                ),
+            ),
+        );
+    }
+
+    private onClearWarnings(): Observable<Partial<EquipmentState>> {
+        return of({ warnings: [] });
+    }
+
+    private onSaveLoadout(action: SaveLoadout): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => {
+                const id = getNextLoadoutId(state.loadouts);
+                const loadout: Loadout = {
+                    id,
+                    name: `${state.selectedUnit ?? 'Set'} ${id}`,
+                    note: '',
+                    tags: [],
+                    inputs: getCalculatorInputs(state),
+                    options: getCalculatorLinkOptions(state),
+                    set: action.set,
+                };
+                return { ...state, loadouts: [...state.loadouts, loadout] };
+            }),
+            tap(({ loadouts }) => this.storageService.saveLoadouts(loadouts)),
+        );
+    }
+
+    private onUpdateLoadout(action: UpdateLoadout): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                loadouts: state.loadouts.map((loadout) =>
+                    loadout.id === action.id ? { ...loadout, ...action.changes } : loadout,
+                ),
+            })),
+            tap(({ loadouts }) => this.storageService.saveLoadouts(loadouts)),
+        );
+    }
+
+    private onDeleteLoadout(action: DeleteLoadout): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                loadouts: state.loadouts.filter((loadout) => loadout.id !== action.id),
+            })),
+            tap(({ loadouts }) => this.storageService.saveLoadouts(loadouts)),
+        );
+    }
+
+    // shows the saved set as the only result instead of calculating it again
+    private onLoadLoadout(action: LoadLoadout): Observable<Partial<EquipmentState>> {
+        return this.withLinkInputs({ ...action.loadout.inputs, ...action.loadout.options }).pipe(
+            map((state) => ({
+                ...state,
+                results: [
+                    {
+                        set: action.loadout.set,
+                        score: weightedTotal(
+                            action.loadout.set,
+                            this.toEquipmentRequest(state),
+                            action.loadout.inputs.schmiedekunst,
+                        ),
+                    },
+                ],
+                engine: undefined,
+            })),
+        );
+    }
+
+    // with the unit and Schmiedekunst of the loadout, not the ones of the calculator
+    private onCompareLoadout(action: CompareLoadout): Observable<Partial<EquipmentState>> {
+        const { inputs, set } = action.loadout;
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                comparedSets: addComparedSet(state.comparedSets, {
+                    unitName: inputs.selectedUnit,
+                    unitElement: inputs.element,
+                    schmiedekunst: inputs.schmiedekunst,
+                    set,
+                }),
+            })),
+        );
+    }
+
+    private onUndo(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => {
+                const { past, future } = state.history;
+                if (past.length === 0) return IDLE_STATE;
+                return {
+                    ...this.restoreHistoryEntry(past[past.length - 1]),
+                    history: {
+                        past: past.slice(0, -1),
+                        future: [toHistoryEntry(state, past[past.length - 1].persistedInputs), ...future],
+                    },
+                };
+            }),
+        );
+    }
+
+    private onRedo(): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => {
+                const { past, future } = state.history;
+                if (future.length === 0) return IDLE_STATE;
+                return {
+                    ...this.restoreHistoryEntry(future[0]),
+                    history: {
+                        past: [...past, toHistoryEntry(state, future[0].persistedInputs)],
+                        future: future.slice(1),
+                    },
+                };
+            }),
+        );
+    }
+
+    // the inputs the undone or redone change saved are saved again, links and loadouts don't change the saved ones
+    private restoreHistoryEntry(entry: HistoryEntry): Partial<EquipmentState> {
+        this.lastUndoable = undefined;
+        const { inputs, pinnedItems, persistedInputs } = entry;
+        if (persistedInputs.includes('waffenschmiede')) this.storageService.saveWaffenschmiede(inputs.waffenschmiede);
+        if (persistedInputs.includes('schmiedekunst')) this.storageService.saveSchmiedekunst(inputs.schmiedekunst);
+        if (persistedInputs.includes('ignoredItems')) this.storageService.saveIgnoredItems(inputs.ignoredItems);
+        if (persistedInputs.includes('pinnedItems')) this.storageService.savePinnedItems(pinnedItems);
+        return { ...fromHistoryEntry(entry), ...IDLE_STATE };
+    }
+
+    // the inputs the action saves to the storage
+    private getPersistedInputs(action: Action): Array<PersistedInput> {
+        if (action instanceof UpdateWaffenschmiede) return ['waffenschmiede'];
+        if (action instanceof UpdateSchmiedekunst) return ['schmiedekunst'];
+        return ITEM_LIST_ACTIONS.some((actionType) => action instanceof actionType)
+            ? ['ignoredItems', 'pinnedItems']
+            : [];
+    }
+
+    // the builds are added to the library, names that no longer exist are reported as warnings
+    private onImportBuilds(action: ImportBuilds): Observable<Partial<EquipmentState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                this.unitService.getUnits().pipe(
+                    take(1),
+                    map((units) => {
+                        const { loadouts, warnings } = readBuildFile(action.content, [...units.keys()]);
+                        return {
+                            ...state,
+                            loadouts: loadouts.reduce(
+                                (all, loadout) => [...all, { ...loadout, id: getNextLoadoutId(all) }],
+                                state.loadouts,
+                            ),
+                            warnings,
+                        };
+                    }),
+                ),
+            ),
+            tap(({ loadouts }) => this.storageService.saveLoadouts(loadouts)),
+            catchError((error) =>
+                of(
+                    errorState(
+                        isError(error) ? error : new InvalidInputError('Die Datei konnte nicht gelesen werden.'),
+                    ),
+                ),
+            ),
         );
     }
 }
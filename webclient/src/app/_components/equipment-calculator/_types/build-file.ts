@@ -0,0 +1,206 @@
+import { Element, elements } from '../../../_types/element';
+import { EquipmentSet } from '../../../_types/equipment-set';
+import { Equipment } from '../../../_types/equipment';
+import { equipmentSlots, findEquipment, getSetKey, getSlotItems } from '../../../_types/equipment-slot';
+import {
+    CalculatorInputs,
+    CalculatorLinkOptions,
+    getCalculatorInputs,
+    getCalculatorLinkOptions,
+} from '../../../_types/calculator-inputs';
+import { Loadout } from '../../../_types/loadout';
+import { InvalidInputError } from '../../../_types/invalid-input-error';
+import { Stat } from '../../../_types/stat';
+import { maxBoundKey, minBoundKey, StatBounds } from '../../../_types/stat-bounds';
+import { MAX_RANKING_SIZE } from '../../../_constants/equipment.constants';
+
+import { EquipmentState } from './equipment-state';
+
+// increase on incompatible changes of the format and keep reading the older versions
+export const BUILD_FILE_VERSION = 2;
+
+export type BuildInputs = Omit<CalculatorInputs, 'selectedUnit' | 'ignoredItems'>;
+
+/**
+ * A build of an exported file, the items of the set are referenced by name.
+ */
+export interface BuildFileEntry {
+    name: string;
+    note: string;
+    tags: Array<string>;
+    unit?: string;
+    inputs: BuildInputs;
+    ignoredItems: Array<string>;
+    // since version 2
+    options?: CalculatorLinkOptions;
+    set: Record<keyof EquipmentSet, string>;
+}
+
+export interface BuildFile {
+    schemaVersion: number;
+    builds: Array<BuildFileEntry>;
+}
+
+export interface BuildImport {
+    loadouts: Array<Omit<Loadout, 'id'>>;
+    // unit and item names that no longer exist
+    warnings: Array<string>;
+}
+
+export function toBuildFile(loadouts: Array<Loadout>): BuildFile {
+    return {
+        schemaVersion: BUILD_FILE_VERSION,
+        builds: loadouts.map(({ name, note, tags, inputs, options, set }) => {
+            const { selectedUnit, ignoredItems, ...buildInputs } = inputs;
+            return {
+                name,
+                note,
+                tags,
+                unit: selectedUnit,
+                inputs: buildInputs,
+                ignoredItems,
+                options,
+                set: {
+                    weapon: set.weapon.name,
+                    shield: set.shield.name,
+                    helmet: set.helmet.name,
+                    armour: set.armour.name,
+                    accessory: set.accessory.name,
+                },
+            };
+        }),
+    };
+}
+
+/**
+ * Reads the builds of an exported file. Builds with items that no longer exist are skipped, unknown units and
+ * ignored or pinned items are dropped, both are reported as warnings.
+ */
+export function readBuildFile(content: string, unitNames: Array<string>): BuildImport {
+    let file: Partial<BuildFile>;
+    try {
+        file = JSON.parse(content);
+    } catch {
+        throw new InvalidInputError('Die Datei ist keine gültige Build-Datei.');
+    }
+    if (typeof file?.schemaVersion !== 'number' || !Array.isArray(file.builds)) {
+        throw new InvalidInputError('Die Datei ist keine gültige Build-Datei.');
+    }
+    if (file.schemaVersion > BUILD_FILE_VERSION) {
+        throw new InvalidInputError(
+            `Die Build-Datei hat Version ${file.schemaVersion}, unterstützt wird bis Version ${BUILD_FILE_VERSION}.`,
+        );
+    }
+
+    const warnings: Array<string> = [];
+    const loadouts: Array<Omit<Loadout, 'id'>> = [];
+    file.builds.forEach((build: Partial<BuildFileEntry> | null, index) => {
+        if (typeof build !== 'object' || build === null) {
+            warnings.push(`Build ${index + 1} ist ungültig und wurde nicht importiert.`);
+            return;
+        }
+        const name = typeof build.name === 'string' && build.name ? build.name : `Build ${index + 1}`;
+        const set = readSet(build.set);
+        if (typeof set === 'string') {
+            warnings.push(`${name}: Der Gegenstand "${set}" existiert nicht mehr, der Build wurde nicht importiert.`);
+            return;
+        }
+
+        let unit = typeof build.unit === 'string' ? build.unit : undefined;
+        if (unit && !unitNames.includes(unit)) {
+            warnings.push(`${name}: Die Einheit "${unit}" existiert nicht mehr.`);
+            unit = undefined;
+        }
+        const ignoredItems = (Array.isArray(build.ignoredItems) ? build.ignoredItems : []).filter(
+            (itemName) => typeof itemName === 'string',
+        );
+        const unknownItems = ignoredItems.filter((itemName) => !findEquipment(itemName));
+        if (unknownItems.length > 0) {
+            warnings.push(`${name}: Unbekannte ignorierte Gegenstände entfernt: ${unknownItems.join(', ')}.`);
+        }
+        const options = build.options ? readOptions(build.options) : undefined;
+        const unknownPinnedItems = options?.pinnedItems.filter((itemName) => !findEquipment(itemName)) ?? [];
+        if (options && unknownPinnedItems.length > 0) {
+            warnings.push(`${name}: Unbekannte fixierte Gegenstände entfernt: ${unknownPinnedItems.join(', ')}.`);
+            options.pinnedItems = options.pinnedItems.filter((itemName) => !unknownPinnedItems.includes(itemName));
+        }
+
+        loadouts.push({
+            name,
+            note: typeof build.note === 'string' ? build.note : '',
+            tags: Array.isArray(build.tags) ? build.tags.filter((tag) => typeof tag === 'string') : [],
+            inputs: {
+                ...readInputs(build.inputs),
+                selectedUnit: unit,
+                ignoredItems: ignoredItems.filter((itemName) => !unknownItems.includes(itemName)),
+            },
+            options,
+            set,
+        });
+    });
+    return { loadouts, warnings };
+}
+
+// the set, or the name of the first item that doesn't exist in its slot
+function readSet(names?: Partial<Record<keyof EquipmentSet, string>>): EquipmentSet | string {
+    const set: Partial<EquipmentSet> = {};
+    for (const slot of equipmentSlots) {
+        const key = getSetKey(slot);
+        const itemName = names?.[key];
+        const item: Equipment | undefined = getSlotItems(slot).find(({ name }) => name === itemName);
+        if (!item) return itemName ?? key;
+        set[key] = item;
+    }
+    return set as EquipmentSet;
+}
+
+// missing or invalid inputs get the defaults of the calculator
+function readInputs(inputs?: Partial<BuildInputs>): BuildInputs {
+    const defaults = getCalculatorInputs(new EquipmentState());
+    const number = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback);
+    const boolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+    const element = (value: unknown) => (elements.includes(value) ? (value as Element) : undefined);
+    return {
+        carryWeight: number(inputs?.carryWeight, defaults.carryWeight),
+        element: element(inputs?.element) ?? defaults.element,
+        ranged: boolean(inputs?.ranged, defaults.ranged),
+        rangedRequired: boolean(inputs?.rangedRequired, defaults.rangedRequired),
+        rangedForbidden: boolean(inputs?.rangedForbidden, defaults.rangedForbidden),
+        elementAttack: element(inputs?.elementAttack),
+        elementDefense: element(inputs?.elementDefense),
+        apWeight: number(inputs?.apWeight, defaults.apWeight),
+        vpWeight: number(inputs?.vpWeight, defaults.vpWeight),
+        hpWeight: number(inputs?.hpWeight, defaults.hpWeight),
+        mpWeight: number(inputs?.mpWeight, defaults.mpWeight),
+        waffenschmiede: number(inputs?.waffenschmiede, defaults.waffenschmiede),
+        schmiedekunst: number(inputs?.schmiedekunst, defaults.schmiedekunst),
+    };
+}
+
+// missing or invalid options get the defaults of the calculator
+function readOptions(options: Partial<CalculatorLinkOptions>): CalculatorLinkOptions {
+    const defaults = getCalculatorLinkOptions(new EquipmentState());
+    const boolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+    const statBounds: StatBounds = {};
+    Object.values(Stat)
+        .flatMap((stat) => [minBoundKey(stat), maxBoundKey(stat)])
+        .forEach((key) => {
+            const value = options.statBounds?.[key];
+            if (typeof value === 'number') statBounds[key] = value;
+        });
+    const rankingSize = options.rankingSize;
+    const validRankingSize =
+        typeof rankingSize === 'number' &&
+        Number.isInteger(rankingSize) &&
+        rankingSize >= 1 &&
+        rankingSize <= MAX_RANKING_SIZE;
+    return {
+        pinnedItems: Array.isArray(options.pinnedItems)
+            ? options.pinnedItems.filter((itemName) => typeof itemName === 'string')
+            : defaults.pinnedItems,
+        statBounds,
+        onlyOwnedItems: boolean(options.onlyOwnedItems, defaults.onlyOwnedItems),
+        relativeScore: boolean(options.relativeScore, defaults.relativeScore),
+        rankingSize: validRankingSize ? rankingSize : defaults.rankingSize,
+    };
+}
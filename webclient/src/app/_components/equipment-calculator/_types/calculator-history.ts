@@ -0,0 +1,74 @@
+import { BaseStats } from '../../../_types/base-stats';
+import { CalculationEngine } from '../../../_types/calculation-engine';
+import { CalculatorInputs, getCalculatorInputs } from '../../../_types/calculator-inputs';
+import { RankedEquipmentSet } from '../../../_types/ranked-equipment-set';
+import { StatBounds } from '../../../_types/stat-bounds';
+
+import { EquipmentState } from './equipment-state';
+
+// older entries are dropped
+export const MAX_HISTORY_SIZE = 50;
+
+export type PersistedInput = 'waffenschmiede' | 'schmiedekunst' | 'ignoredItems' | 'pinnedItems';
+
+/**
+ * The inputs of the calculator before a change, with the results calculated for them so undo doesn't need to
+ * calculate them again.
+ */
+export interface HistoryEntry {
+    inputs: CalculatorInputs;
+    baseStats?: BaseStats;
+    pinnedItems: Array<string>;
+    statBounds: StatBounds;
+    relativeScore: boolean;
+    results: Array<RankedEquipmentSet>;
+    engine?: CalculationEngine;
+    // the inputs the change after the entry saved, undo and redo save only these again
+    persistedInputs: Array<PersistedInput>;
+}
+
+export interface CalculatorHistory {
+    past: Array<HistoryEntry>;
+    future: Array<HistoryEntry>;
+}
+
+export const EMPTY_HISTORY: CalculatorHistory = { past: [], future: [] };
+
+export function toHistoryEntry(state: EquipmentState, persistedInputs: Array<PersistedInput> = []): HistoryEntry {
+    return {
+        inputs: getCalculatorInputs(state),
+        baseStats: state.baseStats,
+        pinnedItems: [...state.pinnedItems],
+        statBounds: { ...state.statBounds },
+        relativeScore: state.relativeScore,
+        results: state.results,
+        engine: state.engine,
+        persistedInputs,
+    };
+}
+
+export function fromHistoryEntry(entry: HistoryEntry): Partial<EquipmentState> {
+    return {
+        ...entry.inputs,
+        baseStats: entry.baseStats,
+        pinnedItems: entry.pinnedItems,
+        statBounds: entry.statBounds,
+        relativeScore: entry.relativeScore,
+        results: entry.results,
+        engine: entry.engine,
+        explainedSet: undefined,
+        setExplanation: [],
+    };
+}
+
+// the results are left out, they only change with the inputs
+export function sameInputs(entry1: HistoryEntry, entry2: HistoryEntry): boolean {
+    const inputs = ({ inputs, pinnedItems, statBounds, relativeScore }: HistoryEntry) =>
+        JSON.stringify({ inputs, pinnedItems, statBounds, relativeScore });
+    return inputs(entry1) === inputs(entry2);
+}
+
+// a new change can't be redone after
+export function pushHistory(history: CalculatorHistory, entry: HistoryEntry): CalculatorHistory {
+    return { past: [...history.past, entry].slice(-MAX_HISTORY_SIZE), future: [] };
+}
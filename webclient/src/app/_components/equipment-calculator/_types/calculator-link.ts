@@ -0,0 +1,86 @@
+import { ParamMap, Params } from '@angular/router';
+
+import { Element, elements } from '../../../_types/element';
+import { CalculatorInputs, CalculatorLinkOptions } from '../../../_types/calculator-inputs';
+import { Stat } from '../../../_types/stat';
+import { maxBoundKey, minBoundKey } from '../../../_types/stat-bounds';
+
+/**
+ * The inputs of the calculator a permalink restores, missing ones keep their current value or the one of the unit.
+ */
+export type CalculatorLink = Partial<CalculatorInputs & CalculatorLinkOptions>;
+
+const NUMBER_PARAMS = [
+    'carryWeight',
+    'apWeight',
+    'vpWeight',
+    'hpWeight',
+    'mpWeight',
+    'waffenschmiede',
+    'schmiedekunst',
+    'rankingSize',
+] as const;
+const BOOLEAN_PARAMS = ['ranged', 'rangedRequired', 'rangedForbidden', 'onlyOwnedItems', 'relativeScore'] as const;
+const ELEMENT_PARAMS = ['element', 'elementAttack', 'elementDefense'] as const;
+const LIST_PARAMS = ['ignoredItems', 'pinnedItems'] as const;
+const BOUND_PARAMS = Object.values(Stat).flatMap((stat) => [minBoundKey(stat), maxBoundKey(stat)]);
+
+// 'unit' is also used by the links of the unit pages
+export function toQueryParams(state: CalculatorInputs & CalculatorLinkOptions): Params {
+    const params: Params = {};
+    if (state.selectedUnit) params['unit'] = state.selectedUnit;
+    NUMBER_PARAMS.forEach((key) => (params[key] = `${state[key]}`));
+    BOOLEAN_PARAMS.forEach((key) => (params[key] = `${state[key]}`));
+    ELEMENT_PARAMS.forEach((key) => {
+        if (state[key]) params[key] = state[key];
+    });
+    LIST_PARAMS.forEach((key) => (params[key] = state[key].join(',')));
+    BOUND_PARAMS.forEach((key) => {
+        if (state.statBounds[key] !== undefined) params[key] = `${state.statBounds[key]}`;
+    });
+    return params;
+}
+
+// values that can't be parsed are left out
+export function fromQueryParams(params: ParamMap): CalculatorLink {
+    const link: CalculatorLink = {};
+    const unit = params.get('unit');
+    if (unit) link.selectedUnit = unit;
+    NUMBER_PARAMS.forEach((key) => {
+        const value = Number.parseInt(params.get(key) ?? '');
+        if (!isNaN(value)) link[key] = value;
+    });
+    BOOLEAN_PARAMS.forEach((key) => {
+        const value = params.get(key);
+        if (value === 'true' || value === 'false') link[key] = value === 'true';
+    });
+    ELEMENT_PARAMS.forEach((key) => {
+        const value = params.get(key);
+        if (elements.includes(value)) link[key] = value as Element;
+    });
+    LIST_PARAMS.forEach((key) => {
+        const value = params.get(key);
+        if (value !== null) {
+            link[key] = value
+                .split(',')
+                .map((name) => name.trim())
+                .filter((name) => !!name);
+        }
+    });
+    // only set bounds are written, so a link of the calculator without any has none
+    if (params.has('rankingSize')) link.statBounds = {};
+    BOUND_PARAMS.forEach((key) => {
+        const value = Number.parseInt(params.get(key) ?? '');
+        if (!isNaN(value)) link.statBounds = { ...link.statBounds, [key]: value };
+    });
+    return link;
+}
+
+export function sameQueryParams(params1: Params, params2: Params): boolean {
+    const keys = Object.keys(params1);
+    return keys.length === Object.keys(params2).length && keys.every((key) => `${params1[key]}` === `${params2[key]}`);
+}
+
+export function toParams(params: ParamMap): Params {
+    return Object.fromEntries(params.keys.map((key) => [key, params.get(key)]));
+}
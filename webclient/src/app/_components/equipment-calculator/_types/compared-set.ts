@@ -0,0 +1,44 @@
+import { Element } from '../../../_types/element';
+import { EquipmentSet } from '../../../_types/equipment-set';
+import { equipmentSlots, getSetKey } from '../../../_types/equipment-slot';
+
+/**
+ * A set pinned into the comparison table with the unit and Schmiedekunst it was calculated for, so sets of different
+ * units can be compared.
+ */
+export interface ComparedSet {
+    id: number;
+    unitName?: string;
+    unitElement: Element;
+    schmiedekunst: number;
+    set: EquipmentSet;
+}
+
+// a set that is already in the table for the same unit and Schmiedekunst is not added again
+export function addComparedSet(
+    comparedSets: Array<ComparedSet>,
+    comparedSet: Omit<ComparedSet, 'id'>,
+): Array<ComparedSet> {
+    if (comparedSets.some((other) => isSameComparedSet(other, comparedSet))) return comparedSets;
+    return [...comparedSets, { ...comparedSet, id: Math.max(0, ...comparedSets.map(({ id }) => id)) + 1 }];
+}
+
+// moves the set to the index, the other sets keep their order
+export function moveComparedSet(comparedSets: Array<ComparedSet>, id: number, index: number): Array<ComparedSet> {
+    const moved = comparedSets.find((comparedSet) => comparedSet.id === id);
+    if (!moved || index < 0 || index >= comparedSets.length) return comparedSets;
+    const others = comparedSets.filter((comparedSet) => comparedSet !== moved);
+    return [...others.slice(0, index), moved, ...others.slice(index)];
+}
+
+function isSameComparedSet(comparedSet1: Omit<ComparedSet, 'id'>, comparedSet2: Omit<ComparedSet, 'id'>): boolean {
+    return (
+        comparedSet1.unitName === comparedSet2.unitName &&
+        comparedSet1.unitElement === comparedSet2.unitElement &&
+        comparedSet1.schmiedekunst === comparedSet2.schmiedekunst &&
+        equipmentSlots.every((slot) => {
+            const key = getSetKey(slot);
+            return comparedSet1.set[key].name === comparedSet2.set[key].name;
+        })
+    );
+}
@@ -1,8 +1,13 @@
 import { Action } from '../../../_types/action';
 import { Element } from '../../../_types/element';
 import { EquipmentSet } from '../../../_types/equipment-set';
+import { Stat } from '../../../_types/stat';
+import { StatBounds } from '../../../_types/stat-bounds';
+import { Inventory } from '../../../_types/inventory';
+import { Loadout, LoadoutChanges } from '../../../_types/loadout';
 
 import { StatWeightingFormData } from './stat-weighting-form-data';
+import { CalculatorLink } from './calculator-link';
 
 export class UpdateWaffenschmiede extends Action {
     constructor(public waffenschmiede: number) {
@@ -64,6 +69,12 @@ export class UpdateDefenseElement extends Action {
     }
 }
 
+export class UpdateRankingSize extends Action {
+    constructor(public rankingSize: number) {
+        super();
+    }
+}
+
 export class CalculateEquipment extends Action {}
 
 export class UpdateStatWeightingData extends Action {
@@ -72,13 +83,32 @@ export class UpdateStatWeightingData extends Action {
     }
 }
 
+export class UpdateRelativeScore extends Action {
+    constructor(public relativeScore: boolean) {
+        super();
+    }
+}
+
 export class MarkForComparison extends Action {
     constructor(public set: EquipmentSet) {
         super();
     }
 }
 
-export class RemoveCompareSet extends Action {}
+export class RemoveComparedSet extends Action {
+    constructor(public id: number) {
+        super();
+    }
+}
+
+export class MoveComparedSet extends Action {
+    constructor(
+        public id: number,
+        public index: number,
+    ) {
+        super();
+    }
+}
 
 export class AddIgnoredItem extends Action {
     constructor(public itemName: string) {
@@ -93,3 +123,119 @@ export class RemoveIgnoredItem extends Action {
 }
 
 export class ClearIgnoredItems extends Action {}
+
+export class AddPinnedItem extends Action {
+    constructor(public itemName: string) {
+        super();
+    }
+}
+
+export class RemovePinnedItem extends Action {
+    constructor(public itemName: string) {
+        super();
+    }
+}
+
+export class ClearPinnedItems extends Action {}
+
+export class UpdateParetoStats extends Action {
+    constructor(
+        public xStat: Stat,
+        public yStat: Stat,
+    ) {
+        super();
+    }
+}
+
+export class CalculateParetoFront extends Action {}
+
+export class CalculateUpgradePlan extends Action {}
+
+export class UpdateCarryWeightRange extends Action {
+    constructor(public carryWeightRange: number) {
+        super();
+    }
+}
+
+export class CalculateCarryWeightBreakpoints extends Action {}
+
+export class ExplainSet extends Action {
+    constructor(public set?: EquipmentSet) {
+        super();
+    }
+}
+
+export class LoadEquipmentSet extends Action {
+    constructor(public set: EquipmentSet) {
+        super();
+    }
+}
+
+export class UpdateStatBounds extends Action {
+    constructor(public statBounds: StatBounds) {
+        super();
+    }
+}
+
+export class UpdateInventory extends Action {
+    constructor(public inventory: Inventory) {
+        super();
+    }
+}
+
+export class UpdateOnlyOwnedItems extends Action {
+    constructor(public onlyOwnedItems: boolean) {
+        super();
+    }
+}
+
+export class LoadCalculatorLink extends Action {
+    constructor(public link: CalculatorLink) {
+        super();
+    }
+}
+
+export class ClearWarnings extends Action {}
+
+export class SaveLoadout extends Action {
+    constructor(public set: EquipmentSet) {
+        super();
+    }
+}
+
+export class UpdateLoadout extends Action {
+    constructor(
+        public id: number,
+        public changes: LoadoutChanges,
+    ) {
+        super();
+    }
+}
+
+export class DeleteLoadout extends Action {
+    constructor(public id: number) {
+        super();
+    }
+}
+
+export class LoadLoadout extends Action {
+    constructor(public loadout: Loadout) {
+        super();
+    }
+}
+
+export class CompareLoadout extends Action {
+    constructor(public loadout: Loadout) {
+        super();
+    }
+}
+
+export class ImportBuilds extends Action {
+    constructor(public content: string) {
+        super();
+    }
+}
+
+export class Undo extends Action {}
+
+export class Redo extends Action {}
@@ -1,11 +1,29 @@
 import { EquipmentSet } from '../../../_types/equipment-set';
 import { Element } from '../../../_types/element';
 import { Error } from '../../../_types/error';
+import { CalculationEngine } from '../../../_types/calculation-engine';
+import { RankedEquipmentSet } from '../../../_types/ranked-equipment-set';
+import { DEFAULT_RANKING_SIZE, MAX_WEIGHT_BONUS } from '../../../_constants/equipment.constants';
+import { ParetoPoint } from '../../../_types/pareto-point';
+import { UpgradeStep } from '../../../_types/upgrade-step';
+import { CarryWeightBreakpoint } from '../../../_types/carry-weight-breakpoint';
+import { SlotExplanation } from '../../../_types/slot-explanation';
+import { Stat } from '../../../_types/stat';
+import { StatBounds } from '../../../_types/stat-bounds';
+import { Inventory } from '../../../_types/inventory';
+import { BaseStats } from '../../../_types/base-stats';
+import { Loadout } from '../../../_types/loadout';
+import { errorStatus, IDLE_STATUS, LOADING_STATUS } from '../../../_types/status';
+
+import { ComparedSet } from './compared-set';
+import { CalculatorHistory, EMPTY_HISTORY } from './calculator-history';
 
 export class EquipmentState {
     waffenschmiede = 0;
     schmiedekunst = 0;
     selectedUnit?: string;
+    // stats of the selected unit without equipment, unknown for a custom unit
+    baseStats?: BaseStats;
     carryWeight = 0;
     element = Element.NONE;
     ranged = false;
@@ -19,38 +37,56 @@ export class EquipmentState {
     hpWeight = 0;
     mpWeight = 0;
 
-    set?: EquipmentSet;
-    compareSet?: EquipmentSet;
+    // rank the sets by their improvement over the base stats in percent instead of their stats
+    relativeScore = false;
+
+    // optional minimum and maximum of the total stats
+    statBounds: StatBounds = {};
+
+    // number of sets to calculate
+    rankingSize = DEFAULT_RANKING_SIZE;
+
+    results: Array<RankedEquipmentSet> = [];
+    engine?: CalculationEngine;
+    // sets of the comparison table, the first one is the baseline of the differences
+    comparedSets: Array<ComparedSet> = [];
+
+    // stats compared in the pareto front explorer
+    paretoXStat = Stat.AP;
+    paretoYStat = Stat.VP;
+    paretoFront: Array<ParetoPoint> = [];
+
+    // best set per Waffenschmiede level from the current one up to the maximum
+    upgradePlan: Array<UpgradeStep> = [];
+
+    // breakpoints of the best set for carry weights up to this far from the carry weight of the unit
+    carryWeightRange = MAX_WEIGHT_BONUS;
+    carryWeightBreakpoints: Array<CarryWeightBreakpoint> = [];
+
+    // the set whose item choice is explained, only one at a time
+    explainedSet?: EquipmentSet;
+    setExplanation: Array<SlotExplanation> = [];
+
     status = IDLE_STATUS;
-    
-    // Ignore list for equipment items
-    ignoredItems: string[] = [];
-}
 
-interface Status {
-    loading: boolean;
-    error?: Error;
-    idle: boolean;
-}
+    // unknown unit or item names of the last opened permalink, loadout or build file
+    warnings: Array<string> = [];
 
-const IDLE_STATUS: Status = {
-    loading: false,
-    error: undefined,
-    idle: true,
-};
+    // changes of the inputs that can be undone and redone
+    history: CalculatorHistory = EMPTY_HISTORY;
 
-const LOADING_STATUS: Status = {
-    loading: true,
-    error: undefined,
-    idle: false,
-};
+    // the saved loadout library
+    loadouts: Array<Loadout> = [];
 
-function errorStatus(error: Error): Status {
-    return {
-        loading: false,
-        error: error,
-        idle: false,
-    };
+    // Ignore list for equipment items
+    ignoredItems: string[] = [];
+
+    // items every calculated set has to contain, at most one per slot
+    pinnedItems: string[] = [];
+
+    // the personal inventory, only used for the calculation if onlyOwnedItems is set
+    inventory: Inventory = {};
+    onlyOwnedItems = false;
 }
 
 export const IDLE_STATE: Partial<EquipmentState> = {
@@ -0,0 +1,151 @@
+import { Element } from '../../../_types/element';
+import { Equipment } from '../../../_types/equipment';
+import { EquipmentSet, totalStat } from '../../../_types/equipment-set';
+import { getEquipmentItems } from '../../../_types/equipment-slot';
+import { Stat, stats } from '../../../_types/stat';
+
+export enum SetExportFormat {
+    BBCODE = 'BBCODE',
+    MARKDOWN = 'MARKDOWN',
+    TEXT = 'TEXT',
+}
+
+export const SET_EXPORT_FORMATS: Array<{ format: SetExportFormat; label: string }> = [
+    { format: SetExportFormat.BBCODE, label: 'BBCode (Forum)' },
+    { format: SetExportFormat.MARKDOWN, label: 'Markdown' },
+    { format: SetExportFormat.TEXT, label: 'Text (Discord)' },
+];
+
+export interface SetExport {
+    title: string;
+    set: EquipmentSet;
+    unitElement: Element;
+    schmiedekunst: number;
+    compareWith?: EquipmentSet;
+}
+
+// text instead of the element icons of the set view
+const ELEMENT_TAGS: Record<Element, Array<string>> = {
+    [Element.NONE]: [],
+    [Element.FIRE]: ['Feuer'],
+    [Element.AIR]: ['Luft'],
+    [Element.EARTH]: ['Erde'],
+    [Element.ICE]: ['Eis'],
+    [Element.FIRE_AIR]: ['Feuer', 'Luft'],
+    [Element.EARTH_ICE]: ['Erde', 'Eis'],
+};
+
+interface ExportStat {
+    stat: Stat;
+    total: number;
+    difference?: number;
+    tags: Array<string>;
+}
+
+/**
+ * The set as text to paste into the forum or Discord, with the totals including Schmiedekunst and the difference to
+ * the compared set.
+ */
+export function getSetExport(format: SetExportFormat, setExport: SetExport): string {
+    switch (format) {
+        case SetExportFormat.BBCODE:
+            return toBBCode(setExport);
+        case SetExportFormat.MARKDOWN:
+            return toMarkdown(setExport);
+        case SetExportFormat.TEXT:
+            return toText(setExport);
+    }
+}
+
+function toBBCode(setExport: SetExport): string {
+    return [
+        `[b]${setExport.title}[/b]`,
+        '[list]',
+        ...getEquipmentItems(setExport.set).map(({ label, equipment }) => `[*][b]${label}[/b] ${itemText(equipment)}`),
+        '[/list]',
+        ...getExportStats(setExport).map(
+            ({ stat, total, difference, tags }) =>
+                `[b]${stat}:[/b] ${total}` +
+                (difference === undefined
+                    ? ''
+                    : ` [color=${differenceColor(difference)}](${signed(difference)})[/color]`) +
+                tagText(tags),
+        ),
+    ].join('\n');
+}
+
+function toMarkdown(setExport: SetExport): string {
+    return [
+        `**${setExport.title}**`,
+        '',
+        '| Slot | Gegenstand |',
+        '| --- | --- |',
+        ...getEquipmentItems(setExport.set).map(
+            ({ label, equipment }) => `| ${label.replace(':', '')} | ${itemText(equipment)} |`,
+        ),
+        '',
+        ...getExportStats(setExport).map(
+            ({ stat, total, difference, tags }) =>
+                `**${stat}:** ${total}` + (difference === undefined ? '' : ` (${signed(difference)})`) + tagText(tags),
+        ),
+    ].join('\n');
+}
+
+// in a code block so Discord keeps the columns aligned
+function toText(setExport: SetExport): string {
+    const items = getEquipmentItems(setExport.set);
+    const width = Math.max(...items.map(({ label }) => label.length));
+    return [
+        '```',
+        setExport.title,
+        ...items.map(({ label, equipment }) => `${label.padEnd(width)} ${itemText(equipment)}`),
+        '',
+        ...getExportStats(setExport).map(
+            ({ stat, total, difference, tags }) =>
+                `${`${stat}:`.padEnd(width)} ${total}` +
+                (difference === undefined ? '' : ` (${signed(difference)})`) +
+                tagText(tags),
+        ),
+        '```',
+    ].join('\n');
+}
+
+function getExportStats({ set, unitElement, schmiedekunst, compareWith }: SetExport): Array<ExportStat> {
+    const offense = [...new Set([...ELEMENT_TAGS[unitElement], ...ELEMENT_TAGS[set.weapon.element]])];
+    const defense = [
+        ...new Set([
+            ...ELEMENT_TAGS[unitElement],
+            ...ELEMENT_TAGS[set.shield.element],
+            ...ELEMENT_TAGS[set.armour.element],
+        ]),
+    ];
+    return stats.map((stat) => {
+        const total = totalStat(set, stat, schmiedekunst);
+        let tags: Array<string> = [];
+        if (stat === Stat.AP) tags = [...(set.weapon.ranged ? ['FK'] : []), ...offense];
+        if (stat === Stat.VP) tags = defense;
+        return {
+            stat,
+            total,
+            difference: compareWith && total - totalStat(compareWith, stat, schmiedekunst),
+            tags,
+        };
+    });
+}
+
+function itemText({ name, requiredWaffenschmiede }: Equipment): string {
+    return `${name} (WS ${requiredWaffenschmiede})`;
+}
+
+function tagText(tags: Array<string>): string {
+    return tags.map((tag) => ` [${tag}]`).join('');
+}
+
+function signed(value: number): string {
+    return value > 0 ? `+${value}` : `${value}`;
+}
+
+function differenceColor(difference: number): string {
+    if (difference > 0) return 'green';
+    return difference < 0 ? 'red' : 'gray';
+}
@@ -0,0 +1,133 @@
+import { catchError, forkJoin, map, Observable, of } from 'rxjs';
+
+import { getElementIcons, RANGED_ICON } from '../../../_types/element';
+import { totalStat, totalWeight } from '../../../_types/equipment-set';
+import { getEquipmentItems } from '../../../_types/equipment-slot';
+import { Stat, stats } from '../../../_types/stat';
+
+import { SetExport } from './set-export';
+
+const WIDTH = 520;
+const PADDING = 16;
+const ROW_HEIGHT = 26;
+const TITLE_HEIGHT = 36;
+const ICON_SIZE = 16;
+const VALUE_COLUMN = 110;
+const FONT = '14px Roboto, "Helvetica Neue", sans-serif';
+const BOLD_FONT = 'bold 18px Roboto, "Helvetica Neue", sans-serif';
+
+/**
+ * Draws the set like a result card, with the element icons of the assets, and returns it as a PNG data URL. The icons
+ * are part of the app, so it works offline.
+ */
+export function renderSetImage(setExport: SetExport): Observable<string> {
+    const { set, unitElement } = setExport;
+    const items = getEquipmentItems(set);
+    const statIcons: Record<Stat, Array<string>> = {
+        [Stat.AP]: unique([
+            ...(set.weapon.ranged ? [RANGED_ICON] : []),
+            ...getElementIcons(unitElement),
+            ...getElementIcons(set.weapon.element),
+        ]),
+        [Stat.VP]: unique([
+            ...getElementIcons(unitElement),
+            ...getElementIcons(set.shield.element),
+            ...getElementIcons(set.armour.element),
+        ]),
+        [Stat.HP]: [],
+        [Stat.MP]: [],
+    };
+    const sources = unique([
+        ...items.flatMap(({ equipment }) => [
+            ...(equipment.ranged ? [RANGED_ICON] : []),
+            ...getElementIcons(equipment.element),
+        ]),
+        ...Object.values(statIcons).flat(),
+    ]);
+
+    return (sources.length > 0 ? forkJoin(sources.map(loadImage)) : of([])).pipe(
+        map((images) => {
+            const icons = new Map(sources.map((source, index) => [source, images[index]]));
+            const rows = items.length + stats.length + 1;
+            const canvas = document.createElement('canvas');
+            canvas.width = WIDTH;
+            canvas.height = 2 * PADDING + TITLE_HEIGHT + rows * ROW_HEIGHT + ROW_HEIGHT / 2;
+            const context = canvas.getContext('2d');
+            if (!context) return canvas.toDataURL('image/png');
+
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.textBaseline = 'middle';
+            context.fillStyle = '#212121';
+            context.font = BOLD_FONT;
+            context.fillText(setExport.title, PADDING, PADDING + TITLE_HEIGHT / 2);
+
+            let y = PADDING + TITLE_HEIGHT + ROW_HEIGHT / 2;
+            context.font = FONT;
+            items.forEach(({ label, equipment }) => {
+                const text = `${equipment.name} (WS ${equipment.requiredWaffenschmiede})`;
+                const itemIcons = [...(equipment.ranged ? [RANGED_ICON] : []), ...getElementIcons(equipment.element)];
+                drawRow(context, y, label, text);
+                drawIcons(context, y, PADDING + VALUE_COLUMN + textWidth(context, text) + 8, itemIcons, icons);
+                y += ROW_HEIGHT;
+            });
+
+            context.strokeStyle = '#e0e0e0';
+            context.beginPath();
+            context.moveTo(PADDING, y - ROW_HEIGHT / 4);
+            context.lineTo(WIDTH - PADDING, y - ROW_HEIGHT / 4);
+            context.stroke();
+            y += ROW_HEIGHT / 2;
+
+            stats.forEach((stat: Stat) => {
+                const total = `${totalStat(set, stat, setExport.schmiedekunst)}`;
+                drawRow(context, y, `${stat}:`, total);
+                drawIcons(context, y, PADDING + VALUE_COLUMN + textWidth(context, total) + 8, statIcons[stat], icons);
+                y += ROW_HEIGHT;
+            });
+            drawRow(context, y, 'Gewicht:', `${totalWeight(set)}`);
+            return canvas.toDataURL('image/png');
+        }),
+    );
+}
+
+// a missing icon is left out instead of failing the whole image
+function loadImage(source: string): Observable<HTMLImageElement | undefined> {
+    return new Observable<HTMLImageElement | undefined>((subscriber) => {
+        const image = new Image();
+        image.onload = () => {
+            subscriber.next(image);
+            subscriber.complete();
+        };
+        image.onerror = () => subscriber.error(source);
+        image.src = source;
+    }).pipe(catchError(() => of(undefined)));
+}
+
+function drawRow(context: CanvasRenderingContext2D, y: number, label: string, value: string): void {
+    context.fillStyle = '#757575';
+    context.fillText(label, PADDING, y);
+    context.fillStyle = '#212121';
+    context.fillText(value, PADDING + VALUE_COLUMN, y);
+}
+
+function drawIcons(
+    context: CanvasRenderingContext2D,
+    y: number,
+    x: number,
+    sources: Array<string>,
+    icons: Map<string, HTMLImageElement | undefined>,
+): void {
+    sources.forEach((source, index) => {
+        const icon = icons.get(source);
+        if (icon) context.drawImage(icon, x + index * (ICON_SIZE + 4), y - ICON_SIZE / 2, ICON_SIZE, ICON_SIZE);
+    });
+}
+
+function textWidth(context: CanvasRenderingContext2D, text: string): number {
+    return context.measureText(text).width;
+}
+
+function unique(values: Array<string>): Array<string> {
+    return [...new Set(values)];
+}
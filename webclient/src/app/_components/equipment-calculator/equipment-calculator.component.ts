@@ -1,13 +1,25 @@
-import { Component, Self } from '@angular/core';
-import { distinctUntilChanged, filter, map } from 'rxjs';
+import { Component, HostListener, OnDestroy, Self } from '@angular/core';
+import { ActivatedRoute, Params, Router } from '@angular/router';
+import { distinctUntilChanged, filter, map, skip } from 'rxjs';
 import { MatSnackBar } from '@angular/material/snack-bar';
+import { Clipboard } from '@angular/cdk/clipboard';
 
 import { CompositeSubscription } from '../../_types/composite-subscription';
 import { Element } from '../../_types/element';
 import { EquipmentSet } from '../../_types/equipment-set';
+import { CalculationEngine } from '../../_types/calculation-engine';
+import { Stat } from '../../_types/stat';
+import { StatBounds } from '../../_types/stat-bounds';
+import { Inventory } from '../../_types/inventory';
+import { Loadout, LoadoutChanges } from '../../_types/loadout';
+import { downloadDataUrl } from '../../_util/download';
 
 import { EquipmentStore } from './_services/equipment.store';
 import { StatWeightingFormData } from './_types/stat-weighting-form-data';
+import { getSetExport, SET_EXPORT_FORMATS, SetExport, SetExportFormat } from './_types/set-export';
+import { renderSetImage } from './_types/set-image';
+import { EquipmentState } from './_types/equipment-state';
+import { fromQueryParams, sameQueryParams, toParams, toQueryParams } from './_types/calculator-link';
 
 @Component({
     selector: 'app-equipment-calculator',
@@ -15,13 +27,40 @@ import { StatWeightingFormData } from './_types/stat-weighting-form-data';
     styleUrls: ['./equipment-calculator.component.scss'],
     providers: [EquipmentStore],
 })
-export class EquipmentCalculatorComponent {
+export class EquipmentCalculatorComponent implements OnDestroy {
+    readonly CalculationEngine = CalculationEngine;
+    readonly SET_EXPORT_FORMATS = SET_EXPORT_FORMATS;
+
     subscriptions = new CompositeSubscription();
 
+    // the query params the inputs were last written to, to tell them apart from an opened link
+    private writtenParams: Params = {};
+
     constructor(
         @Self() public store: EquipmentStore,
+        route: ActivatedRoute,
+        router: Router,
         private snackbar: MatSnackBar,
+        private clipboard: Clipboard,
     ) {
+        // a permalink, e.g. the unit detail page links to the calculator with its unit preselected
+        this.subscriptions.add(
+            route.queryParamMap
+                .pipe(
+                    filter(
+                        (params) => params.keys.length > 0 && !sameQueryParams(toParams(params), this.writtenParams),
+                    ),
+                )
+                .subscribe((params) => store.loadCalculatorLink(fromQueryParams(params))),
+        );
+        this.subscriptions.add(
+            store.state$
+                .pipe(map(toQueryParams), distinctUntilChanged(sameQueryParams), skip(1))
+                .subscribe((queryParams) => {
+                    this.writtenParams = queryParams;
+                    router.navigate([], { relativeTo: route, queryParams, replaceUrl: true });
+                }),
+        );
         this.subscriptions.add(
             store.state$
                 .pipe(
@@ -35,6 +74,55 @@ export class EquipmentCalculatorComponent {
         );
     }
 
+    ngOnDestroy(): void {
+        this.subscriptions.unsubscribe();
+    }
+
+    // text fields keep their own undo
+    @HostListener('document:keydown', ['$event'])
+    onKeydown(event: KeyboardEvent): void {
+        if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+        const target = event.target as HTMLElement | null;
+        if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+        event.preventDefault();
+        if (event.shiftKey) {
+            this.store.redo();
+        } else {
+            this.store.undo();
+        }
+    }
+
+    undo(): void {
+        this.store.undo();
+    }
+
+    redo(): void {
+        this.store.redo();
+    }
+
+    copyLink(): void {
+        const copied = this.clipboard.copy(window.location.href);
+        this.snackbar.open(copied ? 'Link kopiert' : 'Der Link konnte nicht kopiert werden.', '', { duration: 3000 });
+    }
+
+    copySetExport(format: SetExportFormat, set: EquipmentSet, state: EquipmentState): void {
+        const text = getSetExport(format, this.toSetExport(set, state));
+        const copied = this.clipboard.copy(text);
+        this.snackbar.open(copied ? 'Set kopiert' : 'Das Set konnte nicht kopiert werden.', '', { duration: 3000 });
+    }
+
+    downloadSetImage(set: EquipmentSet, state: EquipmentState): void {
+        this.subscriptions.add(
+            renderSetImage(this.toSetExport(set, state)).subscribe((dataUrl) =>
+                downloadDataUrl(`${state.selectedUnit ?? 'set'}.png`, dataUrl),
+            ),
+        );
+    }
+
+    clearWarnings(): void {
+        this.store.clearWarnings();
+    }
+
     calculateEquipment(): void {
         this.store.getEquipment();
     }
@@ -43,6 +131,10 @@ export class EquipmentCalculatorComponent {
         this.store.updateStatWeighting(data);
     }
 
+    onRelativeScoreChanged(relativeScore: boolean): void {
+        this.store.updateRelativeScore(relativeScore);
+    }
+
     onCarryWeightChanged(carryWeight: number): void {
         this.store.updateCarryWeight(carryWeight);
     }
@@ -55,6 +147,14 @@ export class EquipmentCalculatorComponent {
         this.store.updateDefenseElement(element);
     }
 
+    onInventoryChanged(inventory: Inventory): void {
+        this.store.updateInventory(inventory);
+    }
+
+    onOnlyOwnedItemsChanged(onlyOwnedItems: boolean): void {
+        this.store.updateOnlyOwnedItems(onlyOwnedItems);
+    }
+
     onRangedChanged(ranged: boolean): void {
         this.store.updateRanged(ranged);
     }
@@ -67,6 +167,10 @@ export class EquipmentCalculatorComponent {
         this.store.updateRangedRequired(rangedRequired);
     }
 
+    onRankingSizeChanged(rankingSize: number): void {
+        this.store.updateRankingSize(rankingSize);
+    }
+
     onSchmiedekunstChanged(schmiedekunst: number): void {
         this.store.updateSchmiedekunst(schmiedekunst);
     }
@@ -75,6 +179,10 @@ export class EquipmentCalculatorComponent {
         this.store.updateSelectedUnit(unitName);
     }
 
+    onStatBoundsChanged(statBounds: StatBounds): void {
+        this.store.updateStatBounds(statBounds);
+    }
+
     onUnitElementChanged(element: Element): void {
         this.store.updateUnitElement(element);
     }
@@ -87,8 +195,12 @@ export class EquipmentCalculatorComponent {
         this.store.markForComparison(set);
     }
 
-    removeCompareSet(): void {
-        this.store.removeCompareSet();
+    removeComparedSet(id: number): void {
+        this.store.removeComparedSet(id);
+    }
+
+    moveComparedSet({ id, index }: { id: number; index: number }): void {
+        this.store.moveComparedSet(id, index);
     }
 
     addIgnoredItem(itemName: string): void {
@@ -102,4 +214,84 @@ export class EquipmentCalculatorComponent {
     clearIgnoredItems(): void {
         this.store.clearIgnoredItems();
     }
+
+    addPinnedItem(itemName: string): void {
+        this.store.addPinnedItem(itemName);
+    }
+
+    removePinnedItem(itemName: string): void {
+        this.store.removePinnedItem(itemName);
+    }
+
+    clearPinnedItems(): void {
+        this.store.clearPinnedItems();
+    }
+
+    explainSet(set: EquipmentSet): void {
+        this.store.explainSet(set);
+    }
+
+    onParetoStatsChanged({ xStat, yStat }: { xStat: Stat; yStat: Stat }): void {
+        this.store.updateParetoStats(xStat, yStat);
+    }
+
+    calculateParetoFront(): void {
+        this.store.calculateParetoFront();
+    }
+
+    calculateUpgradePlan(): void {
+        this.store.calculateUpgradePlan();
+    }
+
+    onCarryWeightRangeChanged(carryWeightRange: number): void {
+        this.store.updateCarryWeightRange(carryWeightRange);
+    }
+
+    calculateCarryWeightBreakpoints(): void {
+        this.store.calculateCarryWeightBreakpoints();
+    }
+
+    loadEquipmentSet(set: EquipmentSet): void {
+        this.store.loadEquipmentSet(set);
+    }
+
+    saveLoadout(set: EquipmentSet): void {
+        this.store.saveLoadout(set);
+        this.snackbar.open('Set in der Bibliothek gespeichert', '', { duration: 3000 });
+    }
+
+    onLoadoutChanged({ id, changes }: { id: number; changes: LoadoutChanges }): void {
+        this.store.updateLoadout(id, changes);
+    }
+
+    deleteLoadout(id: number): void {
+        this.store.deleteLoadout(id);
+    }
+
+    loadLoadout(loadout: Loadout): void {
+        this.store.loadLoadout(loadout);
+    }
+
+    compareLoadout(loadout: Loadout): void {
+        this.store.compareLoadout(loadout);
+    }
+
+    importBuilds(content: string): void {
+        this.store.importBuilds(content);
+    }
+
+    // the first set of the comparison table is the baseline of the differences
+    compareWith(state: EquipmentState): EquipmentSet | undefined {
+        return state.comparedSets.length > 0 ? state.comparedSets[0].set : undefined;
+    }
+
+    private toSetExport(set: EquipmentSet, state: EquipmentState): SetExport {
+        return {
+            title: `${state.selectedUnit ?? 'Eigene Einheit'} (SK ${state.schmiedekunst})`,
+            set,
+            unitElement: state.element,
+            schmiedekunst: state.schmiedekunst,
+            compareWith: this.compareWith(state),
+        };
+    }
 }
@@ -0,0 +1,65 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { MatCheckboxChange } from '@angular/material/checkbox';
+
+import { Inventory } from '../../_types/inventory';
+import { Equipment } from '../../_types/equipment';
+import { EquipmentSlot, equipmentSlots, getSlotItems } from '../../_types/equipment-slot';
+import { DEFAULT_EQUIPMENT_NAME } from '../../_constants/equipment.constants';
+import { InvalidInputError } from '../../_types/invalid-input-error';
+
+const SLOT_NAMES: Record<EquipmentSlot, string> = {
+    [EquipmentSlot.WEAPON]: 'Waffen',
+    [EquipmentSlot.SHIELD]: 'Schilde',
+    [EquipmentSlot.ARMOUR]: 'Rüstungen',
+    [EquipmentSlot.HELMET]: 'Helme',
+    [EquipmentSlot.ACCESSORY]: 'Schmuck',
+};
+
+/**
+ * Edits the number of owned pieces per item, grouped by slot. Only checked items are owned.
+ */
+@Component({
+    selector: 'app-inventory-editor',
+    templateUrl: './inventory-editor.component.html',
+    styleUrls: ['./inventory-editor.component.scss'],
+})
+export class InventoryEditorComponent {
+    @Input() inventory: Inventory = {};
+    @Output() inventoryChanged = new EventEmitter<Inventory>();
+
+    readonly DEFAULT_EQUIPMENT_NAME = DEFAULT_EQUIPMENT_NAME;
+
+    readonly slotGroups = equipmentSlots.map((slot) => ({
+        name: SLOT_NAMES[slot],
+        items: getSlotItems(slot).filter((item) => item.name !== DEFAULT_EQUIPMENT_NAME),
+    }));
+
+    itemName(index: number, item: Equipment): string {
+        return item.name;
+    }
+
+    ownedCount(items: Array<Equipment>): number {
+        return items.filter((item) => this.inventory[item.name] !== undefined).length;
+    }
+
+    onOwnedChanged(itemName: string, change: MatCheckboxChange): void {
+        const inventory = { ...this.inventory };
+        if (change.checked) {
+            inventory[itemName] = 1;
+        } else {
+            delete inventory[itemName];
+        }
+        this.inventoryChanged.emit(inventory);
+    }
+
+    onCountChanged(itemName: string, value: string): void {
+        const intValue = Number.parseInt(value);
+        isNaN(intValue) || intValue < 0
+            ? this.inventoryChanged.error(new InvalidInputError(`${value} is not a valid number of items.`))
+            : this.inventoryChanged.emit({ ...this.inventory, [itemName]: intValue });
+    }
+
+    clear(): void {
+        this.inventoryChanged.emit({});
+    }
+}
@@ -0,0 +1,43 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import { elements } from '../../../../_types/element';
+import { equipmentSlots } from '../../../../_types/equipment-slot';
+import { maxBoundKey, minBoundKey } from '../../../../_types/stat-bounds';
+import { stats } from '../../../../_types/stat';
+import { InvalidInputError } from '../../../../_types/invalid-input-error';
+import { SLOT_NAMES } from '../../../../_types/slot-names';
+import { EMPTY_ITEM_FILTER, ItemFilter } from '../../_types/item-filter';
+
+@Component({
+    selector: 'app-item-filter',
+    templateUrl: './item-filter.component.html',
+    styleUrls: ['./item-filter.component.scss'],
+})
+export class ItemFilterComponent {
+    @Input() filter: ItemFilter = EMPTY_ITEM_FILTER;
+    @Output() filterChanged = new EventEmitter<ItemFilter>();
+
+    readonly SLOT_NAMES = SLOT_NAMES;
+
+    slots = equipmentSlots;
+    elements = elements;
+    stats = stats;
+    minBoundKey = minBoundKey;
+    maxBoundKey = maxBoundKey;
+
+    onChanged<K extends keyof ItemFilter>(key: K, value: ItemFilter[K]): void {
+        this.filterChanged.emit({ ...this.filter, [key]: value });
+    }
+
+    // an empty field removes the limit
+    onNumberChanged(key: keyof ItemFilter, value: string): void {
+        const intValue = value === '' ? undefined : Number.parseInt(value);
+        intValue !== undefined && isNaN(intValue)
+            ? this.filterChanged.error(new InvalidInputError(`${value} is not a number.`))
+            : this.filterChanged.emit({ ...this.filter, [key]: intValue });
+    }
+
+    reset(): void {
+        this.filterChanged.emit(EMPTY_ITEM_FILTER);
+    }
+}
@@ -0,0 +1,150 @@
+import { Injectable } from '@angular/core';
+import { asyncScheduler, BehaviorSubject, concatMap, map, Observable, observeOn, of, Subject, take, tap } from 'rxjs';
+import { Sort } from '@angular/material/sort';
+
+import { Action } from '../../../_types/action';
+import { findEquipmentSlot } from '../../../_types/equipment-slot';
+import { StorageService } from '../../../_services/storage.service';
+import { ItemCatalogState } from '../_types/item-catalog-state';
+import { CatalogItem, getCatalogItems, matchesFilter, sortCatalogItems } from '../_types/catalog-item';
+import { ItemFilter } from '../_types/item-filter';
+import { ToggleIgnoredItem, TogglePinnedItem, UpdateItemFilter, UpdateItemSort } from '../_types/item-catalog-action';
+
+@Injectable()
+export class ItemCatalogStore {
+    state$: Observable<ItemCatalogState>;
+    private _state$: BehaviorSubject<ItemCatalogState>;
+    private _actions$: Subject<Action> = new Subject<Action>();
+
+    constructor(private storageService: StorageService) {
+        const initialState = new ItemCatalogState();
+        initialState.schmiedekunst = storageService.getSchmiedekunst();
+        initialState.items = getCatalogItems(initialState.schmiedekunst);
+        initialState.ignoredItems = storageService.getIgnoredItems();
+        initialState.pinnedItems = storageService.getPinnedItems();
+
+        this._state$ = new BehaviorSubject<ItemCatalogState>(initialState);
+        this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
+        this._actions$
+            .pipe(
+                observeOn(asyncScheduler),
+                concatMap((action) => this.handleAction(action)),
+            )
+            .subscribe((stateUpdate) => this.updateState(stateUpdate));
+    }
+
+    get state(): ItemCatalogState {
+        return this._state$.getValue();
+    }
+
+    updateFilter(filter: ItemFilter): void {
+        this.dispatch(new UpdateItemFilter(filter));
+    }
+
+    updateSort(sort: Sort): void {
+        this.dispatch(new UpdateItemSort(sort));
+    }
+
+    toggleIgnoredItem(itemName: string): void {
+        this.dispatch(new ToggleIgnoredItem(itemName));
+    }
+
+    togglePinnedItem(itemName: string): void {
+        this.dispatch(new TogglePinnedItem(itemName));
+    }
+
+    private dispatch(...actions: Array<Action>): void {
+        actions.forEach((action) => this._actions$.next(action));
+    }
+
+    private updateState(update: Partial<ItemCatalogState>): void {
+        this.setState({ ...this.state, ...update });
+    }
+
+    private setState(state: ItemCatalogState): void {
+        this._state$.next(state);
+    }
+
+    private handleAction(action: Action): Observable<Partial<ItemCatalogState>> {
+        if (action instanceof UpdateItemFilter) return this.onUpdateItemFilter(action);
+        if (action instanceof UpdateItemSort) return this.onUpdateItemSort(action);
+        if (action instanceof ToggleIgnoredItem) return this.onToggleIgnoredItem(action);
+        if (action instanceof TogglePinnedItem) return this.onTogglePinnedItem(action);
+
+        return of({});
+    }
+
+    private onUpdateItemFilter(action: UpdateItemFilter): Observable<Partial<ItemCatalogState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                filter: action.filter,
+                items: this.getItems(state.schmiedekunst, action.filter, state.sort),
+            })),
+        );
+    }
+
+    private onUpdateItemSort(action: UpdateItemSort): Observable<Partial<ItemCatalogState>> {
+        return this.state$.pipe(
+            take(1),
+            map((state) => ({
+                ...state,
+                sort: action.sort,
+                items: this.getItems(state.schmiedekunst, state.filter, action.sort),
+            })),
+        );
+    }
+
+    // Like in the calculator, ignoring an item unpins it
+    private onToggleIgnoredItem(action: ToggleIgnoredItem): Observable<Partial<ItemCatalogState>> {
+        const { itemName } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => {
+                const ignored = state.ignoredItems.includes(itemName);
+                return {
+                    ...state,
+                    ignoredItems: ignored
+                        ? state.ignoredItems.filter((item) => item !== itemName)
+                        : [...state.ignoredItems, itemName],
+                    pinnedItems: state.pinnedItems.filter((item) => item !== itemName),
+                };
+            }),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    // A pinned item replaces the item pinned to the same slot. Whether the unit can wear it is checked by the
+    // calculator, the catalog does not know the unit.
+    private onTogglePinnedItem(action: TogglePinnedItem): Observable<Partial<ItemCatalogState>> {
+        const { itemName } = action;
+        return this.state$.pipe(
+            take(1),
+            map((state) => {
+                const pinned = state.pinnedItems.includes(itemName);
+                const slot = findEquipmentSlot(itemName);
+                return {
+                    ...state,
+                    pinnedItems: pinned
+                        ? state.pinnedItems.filter((item) => item !== itemName)
+                        : [...state.pinnedItems.filter((item) => findEquipmentSlot(item) !== slot), itemName],
+                    ignoredItems: state.ignoredItems.filter((item) => item !== itemName),
+                };
+            }),
+            tap((update) => this.saveItemLists(update)),
+        );
+    }
+
+    private saveItemLists({ ignoredItems, pinnedItems }: Partial<ItemCatalogState>): void {
+        if (ignoredItems) this.storageService.saveIgnoredItems(ignoredItems);
+        if (pinnedItems) this.storageService.savePinnedItems(pinnedItems);
+    }
+
+    private getItems(schmiedekunst: number, filter: ItemFilter, sort: Sort): Array<CatalogItem> {
+        return sortCatalogItems(
+            getCatalogItems(schmiedekunst).filter((item) => matchesFilter(item, filter)),
+            sort,
+        );
+    }
+}
@@ -0,0 +1,97 @@
+import { Sort } from '@angular/material/sort';
+
+import { Equipment, statValue } from '../../../_types/equipment';
+import { EquipmentSlot, equipmentSlots, getSlotItems } from '../../../_types/equipment-slot';
+import { getStatBounds } from '../../../_types/stat-bounds';
+import { Stat } from '../../../_types/stat';
+import { DEFAULT_EQUIPMENT_NAME } from '../../../_constants/equipment.constants';
+
+import { ItemFilter } from './item-filter';
+
+export interface CatalogItem {
+    slot: EquipmentSlot;
+    equipment: Equipment;
+    // stats including the Schmiedekunst bonus
+    ap: number;
+    vp: number;
+    hp: number;
+    mp: number;
+}
+
+export type CatalogColumn =
+    | 'name'
+    | 'slot'
+    | 'element'
+    | 'ranged'
+    | 'waffenschmiede'
+    | 'weight'
+    | 'ap'
+    | 'vp'
+    | 'hp'
+    | 'mp';
+
+export function getCatalogItems(schmiedekunst: number): Array<CatalogItem> {
+    return equipmentSlots.flatMap((slot) =>
+        getSlotItems(slot)
+            .filter((equipment) => equipment.name !== DEFAULT_EQUIPMENT_NAME)
+            .map((equipment) => ({
+                slot,
+                equipment,
+                ap: statValue(equipment, Stat.AP, schmiedekunst),
+                vp: statValue(equipment, Stat.VP, schmiedekunst),
+                hp: statValue(equipment, Stat.HP, schmiedekunst),
+                mp: statValue(equipment, Stat.MP, schmiedekunst),
+            })),
+    );
+}
+
+export function matchesFilter(item: CatalogItem, filter: ItemFilter): boolean {
+    const { equipment } = item;
+    return (
+        equipment.name.toLowerCase().includes(filter.name.trim().toLowerCase()) &&
+        (filter.slot === undefined || item.slot === filter.slot) &&
+        (filter.element === undefined || equipment.element === filter.element) &&
+        (filter.ranged === undefined || equipment.ranged === filter.ranged) &&
+        (filter.minWaffenschmiede === undefined || equipment.requiredWaffenschmiede >= filter.minWaffenschmiede) &&
+        (filter.maxWaffenschmiede === undefined || equipment.requiredWaffenschmiede <= filter.maxWaffenschmiede) &&
+        getStatBounds(filter).every(({ stat, min, max }) => {
+            const value = getColumnValue(item, stat.toLowerCase() as CatalogColumn) as number;
+            return (min === undefined || value >= min) && (max === undefined || value <= max);
+        })
+    );
+}
+
+// items without a sort direction keep the order of the catalog
+export function sortCatalogItems(items: Array<CatalogItem>, sort: Sort): Array<CatalogItem> {
+    if (!sort.direction) return items;
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    const column = sort.active as CatalogColumn;
+    return [...items].sort((a, b) => {
+        const valueA = getColumnValue(a, column);
+        const valueB = getColumnValue(b, column);
+        const result =
+            typeof valueA === 'string' && typeof valueB === 'string'
+                ? valueA.localeCompare(valueB)
+                : Number(valueA) - Number(valueB);
+        return result * direction;
+    });
+}
+
+function getColumnValue(item: CatalogItem, column: CatalogColumn): string | number | boolean {
+    switch (column) {
+        case 'name':
+            return item.equipment.name;
+        case 'slot':
+            return item.slot;
+        case 'element':
+            return item.equipment.element;
+        case 'ranged':
+            return item.equipment.ranged;
+        case 'waffenschmiede':
+            return item.equipment.requiredWaffenschmiede;
+        case 'weight':
+            return item.equipment.weight;
+        default:
+            return item[column];
+    }
+}
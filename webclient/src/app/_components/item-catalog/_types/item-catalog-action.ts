@@ -0,0 +1,29 @@
+import { Sort } from '@angular/material/sort';
+
+import { Action } from '../../../_types/action';
+
+import { ItemFilter } from './item-filter';
+
+export class UpdateItemFilter extends Action {
+    constructor(public filter: ItemFilter) {
+        super();
+    }
+}
+
+export class UpdateItemSort extends Action {
+    constructor(public sort: Sort) {
+        super();
+    }
+}
+
+export class ToggleIgnoredItem extends Action {
+    constructor(public itemName: string) {
+        super();
+    }
+}
+
+export class TogglePinnedItem extends Action {
+    constructor(public itemName: string) {
+        super();
+    }
+}
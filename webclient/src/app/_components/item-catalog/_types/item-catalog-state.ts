@@ -0,0 +1,19 @@
+import { Sort } from '@angular/material/sort';
+
+import { CatalogItem } from './catalog-item';
+import { EMPTY_ITEM_FILTER, ItemFilter } from './item-filter';
+
+export class ItemCatalogState {
+    // the stored level, the catalog does not change it
+    schmiedekunst = 0;
+
+    filter: ItemFilter = EMPTY_ITEM_FILTER;
+    sort: Sort = { active: '', direction: '' };
+
+    // the filtered and sorted items
+    items: Array<CatalogItem> = [];
+
+    // shared with the calculator through the storage
+    ignoredItems: Array<string> = [];
+    pinnedItems: Array<string> = [];
+}
@@ -0,0 +1,18 @@
+import { Element } from '../../../_types/element';
+import { EquipmentSlot } from '../../../_types/equipment-slot';
+import { StatBounds } from '../../../_types/stat-bounds';
+
+/**
+ * Filter of the item catalog, undefined properties do not filter. The stat bounds apply to the values including the
+ * Schmiedekunst bonus.
+ */
+export interface ItemFilter extends StatBounds {
+    name: string;
+    slot?: EquipmentSlot;
+    element?: Element;
+    ranged?: boolean;
+    minWaffenschmiede?: number;
+    maxWaffenschmiede?: number;
+}
+
+export const EMPTY_ITEM_FILTER: ItemFilter = { name: '' };
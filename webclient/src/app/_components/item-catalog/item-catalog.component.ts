@@ -0,0 +1,56 @@
+import { Component, Self } from '@angular/core';
+import { Sort } from '@angular/material/sort';
+
+import { SLOT_NAMES } from '../../_types/slot-names';
+
+import { ItemCatalogStore } from './_services/item-catalog.store';
+import { CatalogColumn, CatalogItem } from './_types/catalog-item';
+import { ItemFilter } from './_types/item-filter';
+
+@Component({
+    selector: 'app-item-catalog',
+    templateUrl: './item-catalog.component.html',
+    styleUrls: ['./item-catalog.component.scss'],
+    providers: [ItemCatalogStore],
+})
+export class ItemCatalogComponent {
+    readonly columns: Array<CatalogColumn | 'actions'> = [
+        'name',
+        'slot',
+        'element',
+        'ranged',
+        'waffenschmiede',
+        'weight',
+        'ap',
+        'vp',
+        'hp',
+        'mp',
+        'actions',
+    ];
+
+    constructor(@Self() public store: ItemCatalogStore) {}
+
+    onFilterChanged(filter: ItemFilter): void {
+        this.store.updateFilter(filter);
+    }
+
+    onSortChanged(sort: Sort): void {
+        this.store.updateSort(sort);
+    }
+
+    toggleIgnoredItem(itemName: string): void {
+        this.store.toggleIgnoredItem(itemName);
+    }
+
+    togglePinnedItem(itemName: string): void {
+        this.store.togglePinnedItem(itemName);
+    }
+
+    slotName(item: CatalogItem): string {
+        return SLOT_NAMES[item.slot];
+    }
+
+    itemName(index: number, item: CatalogItem): string {
+        return item.equipment.name;
+    }
+}
@@ -0,0 +1,63 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { UnitService } from '../../_services/unit.service';
+import { CUSTOM_UNIT_NAME, Unit } from '../../_types/unit';
+import { UNIT_TYPE_NAMES, UnitType, unitTypes } from '../../_types/unit-type';
+
+interface UnitGroup {
+    type: UnitType;
+    name: string;
+    units: Array<Unit>;
+}
+
+/**
+ * Lists all units grouped by their type. The search matches the unit names.
+ */
+@Component({
+    selector: 'app-unit-catalog',
+    templateUrl: './unit-catalog.component.html',
+    styleUrls: ['./unit-catalog.component.scss'],
+})
+export class UnitCatalogComponent implements OnInit, OnDestroy {
+    readonly columns = ['name', 'element', 'ranged', 'carryWeight', 'kp', 'ap', 'vp', 'hp', 'mp'];
+
+    search = '';
+    groups: Array<UnitGroup> = [];
+    private units: Array<Unit> = [];
+    private unitsSubscription?: Subscription;
+
+    constructor(private unitService: UnitService) {}
+
+    ngOnInit(): void {
+        this.unitsSubscription = this.unitService.getUnits().subscribe((units) => {
+            this.units = [...units.values()].filter((unit) => unit.name !== CUSTOM_UNIT_NAME);
+            this.updateGroups();
+        });
+    }
+
+    ngOnDestroy(): void {
+        this.unitsSubscription?.unsubscribe();
+    }
+
+    onSearchChanged(search: string): void {
+        this.search = search;
+        this.updateGroups();
+    }
+
+    groupType(index: number, group: UnitGroup): UnitType {
+        return group.type;
+    }
+
+    private updateGroups(): void {
+        const search = this.search.trim().toLowerCase();
+        const units = this.units.filter((unit) => unit.name.toLowerCase().includes(search));
+        this.groups = unitTypes
+            .map((type) => ({
+                type,
+                name: UNIT_TYPE_NAMES[type],
+                units: units.filter((unit) => unit.type === type).sort((a, b) => a.kp - b.kp),
+            }))
+            .filter((group) => group.units.length > 0);
+    }
+}
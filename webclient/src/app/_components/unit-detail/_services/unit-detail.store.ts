@@ -0,0 +1,129 @@
+import { Injectable } from '@angular/core';
+import {
+    asyncScheduler,
+    BehaviorSubject,
+    catchError,
+    concatMap,
+    forkJoin,
+    map,
+    mergeMap,
+    Observable,
+    observeOn,
+    of,
+    startWith,
+    Subject,
+    take,
+} from 'rxjs';
+
+import { Action } from '../../../_types/action';
+import { isError } from '../../../_types/error';
+import { InvalidUnitError } from '../../../_types/invalid-unit-error';
+import { InternalError } from '../../../_types/internal-error';
+import { EquipmentService } from '../../../_services/equipment.service';
+import { StorageService } from '../../../_services/storage.service';
+import { UnitService } from '../../../_services/unit.service';
+import { errorState, IDLE_STATE, LOADING_STATE, UnitDetailState } from '../_types/unit-detail-state';
+import { LoadUnit } from '../_types/unit-detail-action';
+import { DEFAULT_WEIGHTINGS, toDefaultRequest } from '../../../_types/default-weighting';
+
+@Injectable()
+export class UnitDetailStore {
+    state$: Observable<UnitDetailState>;
+    private _state$: BehaviorSubject<UnitDetailState>;
+    private _actions$: Subject<Action> = new Subject<Action>();
+
+    constructor(
+        private equipmentService: EquipmentService,
+        private unitService: UnitService,
+        storageService: StorageService,
+    ) {
+        const initialState = new UnitDetailState();
+        initialState.waffenschmiede = storageService.getWaffenschmiede();
+        initialState.schmiedekunst = storageService.getSchmiedekunst();
+
+        this._state$ = new BehaviorSubject<UnitDetailState>(initialState);
+        this.state$ = this._state$.asObservable().pipe(observeOn(asyncScheduler));
+        this._actions$
+            .pipe(
+                observeOn(asyncScheduler),
+                concatMap((action) => this.handleAction(action)),
+            )
+            .subscribe((stateUpdate) => this.updateState(stateUpdate));
+    }
+
+    get state(): UnitDetailState {
+        return this._state$.getValue();
+    }
+
+    loadUnit(unitName: string): void {
+        this.dispatch(new LoadUnit(unitName));
+    }
+
+    private dispatch(...actions: Array<Action>): void {
+        actions.forEach((action) => this._actions$.next(action));
+    }
+
+    private updateState(update: Partial<UnitDetailState>): void {
+        this.setState({ ...this.state, ...update });
+    }
+
+    private setState(state: UnitDetailState): void {
+        this._state$.next(state);
+    }
+
+    private handleAction(action: Action): Observable<Partial<UnitDetailState>> {
+        if (action instanceof LoadUnit) return this.onLoadUnit(action);
+
+        return of(IDLE_STATE);
+    }
+
+    // Loads the unit and calculates its best set for every default weighting
+    private onLoadUnit(action: LoadUnit): Observable<Partial<UnitDetailState>> {
+        return this.state$.pipe(
+            take(1),
+            mergeMap((state) =>
+                this.unitService.getUnitByName(action.unitName).pipe(
+                    take(1),
+                    mergeMap((unit) => {
+                        if (!unit) {
+                            return of({
+                                unit: undefined,
+                                results: [],
+                                ...errorState(new InvalidUnitError(`${action.unitName} ist unbekannt.`)),
+                            });
+                        }
+
+                        const results = DEFAULT_WEIGHTINGS.map((weighting) =>
+                            this.equipmentService
+                                .getEquipment(
+                                    toDefaultRequest(unit, weighting, state.waffenschmiede, state.schmiedekunst),
+                                )
+                                .pipe(
+                                    take(1),
+                                    map(({ sets }) => ({ weighting, best: sets[0] })),
+                                ),
+                        );
+                        return forkJoin(results).pipe(
+                            map((results) => ({
+                                unit,
+                                results,
+                                ...IDLE_STATE,
+                            })),
+                            startWith({ unit, results: [], ...LOADING_STATE }),
+                            catchError((error) => {
+                                console.error('Error calculating sets of unit:', error);
+                                return of(
+                                    errorState(
+                                        isError(error)
+                                            ? error
+                                            : new InternalError('Die Sets der Einheit konnten nicht berechnet werden.'),
+                                    ),
+                                );
+                            }),
+                        );
+                    }),
+                ),
+            ),
+        );
+    }
+}
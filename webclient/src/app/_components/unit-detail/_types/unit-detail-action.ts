@@ -0,0 +1,7 @@
+import { Action } from '../../../_types/action';
+
+export class LoadUnit extends Action {
+    constructor(public unitName: string) {
+        super();
+    }
+}
@@ -0,0 +1,35 @@
+import { Error } from '../../../_types/error';
+import { Unit } from '../../../_types/unit';
+import { RankedEquipmentSet } from '../../../_types/ranked-equipment-set';
+import { errorStatus, IDLE_STATUS, LOADING_STATUS } from '../../../_types/status';
+import { DefaultWeighting } from '../../../_types/default-weighting';
+
+export interface WeightingResult {
+    weighting: DefaultWeighting;
+    best: RankedEquipmentSet;
+}
+
+export class UnitDetailState {
+    // the stored levels, the detail page does not change them
+    waffenschmiede = 0;
+    schmiedekunst = 0;
+
+    unit?: Unit;
+    results: Array<WeightingResult> = [];
+
+    status = IDLE_STATUS;
+}
+
+export const IDLE_STATE: Partial<UnitDetailState> = {
+    status: IDLE_STATUS,
+};
+
+export const LOADING_STATE: Partial<UnitDetailState> = {
+    status: LOADING_STATUS,
+};
+
+export function errorState(error: Error): Partial<UnitDetailState> {
+    return {
+        status: errorStatus(error),
+    };
+}
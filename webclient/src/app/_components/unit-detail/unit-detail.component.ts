@@ -0,0 +1,58 @@
+import { Component, OnDestroy, Self } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { distinctUntilChanged, filter, map } from 'rxjs';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { CompositeSubscription } from '../../_types/composite-subscription';
+import { UNIT_TYPE_NAMES } from '../../_types/unit-type';
+import { Unit } from '../../_types/unit';
+import { getBaseStats } from '../../_types/base-stats';
+
+import { UnitDetailStore } from './_services/unit-detail.store';
+
+@Component({
+    selector: 'app-unit-detail',
+    templateUrl: './unit-detail.component.html',
+    styleUrls: ['./unit-detail.component.scss'],
+    providers: [UnitDetailStore],
+})
+export class UnitDetailComponent implements OnDestroy {
+    subscriptions = new CompositeSubscription();
+
+    getBaseStats = getBaseStats;
+
+    constructor(
+        @Self() public store: UnitDetailStore,
+        route: ActivatedRoute,
+        private snackbar: MatSnackBar,
+    ) {
+        this.subscriptions.add(
+            route.paramMap
+                .pipe(
+                    map((params) => params.get('name')),
+                    filter((name): name is string => !!name),
+                    distinctUntilChanged(),
+                )
+                .subscribe((name) => store.loadUnit(name)),
+        );
+        this.subscriptions.add(
+            store.state$
+                .pipe(
+                    map(({ status }) => status),
+                    distinctUntilChanged(),
+                    filter((status) => !!status.error),
+                )
+                .subscribe((status) => {
+                    this.snackbar.open(`Da ist was schief gegangen: ${status.error?.message}`, '', { duration: 5000 });
+                }),
+        );
+    }
+
+    ngOnDestroy(): void {
+        this.subscriptions.unsubscribe();
+    }
+
+    typeName(unit: Unit): string {
+        return UNIT_TYPE_NAMES[unit.type];
+    }
+}
@@ -7,3 +7,13 @@ export const EQUIPMENT_LABELS = {
     HELMET: 'Helm:',
     ACCESSORY: 'Schmuck:',
 } as const;
+
+// Mirrors Equipment.MAX_WEIGHT_BONUS of the backend
+export const MAX_WEIGHT_BONUS = 57;
+
+export const DEFAULT_RANKING_SIZE = 5;
+// Mirrors EquipmentController.MAX_RANKING_SIZE of the backend
+export const MAX_RANKING_SIZE = 20;
+
+// the highest Waffenschmiede level an item can require
+export const MAX_WAFFENSCHMIEDE = 10;
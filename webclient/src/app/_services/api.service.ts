@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { catchError, Observable, throwError } from 'rxjs';
 
 import { toHttpParams } from '../_util/http';
+import { isApiError, toError } from '../_types/api-error';
 import { environment } from '../../environments/environment';
 
 @Injectable({
@@ -13,7 +14,13 @@ export class ApiService {
 
     get<T>(url: string, data: Record<string, unknown> = {}): Observable<T> {
         const params = toHttpParams(data);
-        return this.http.get<T>(environment.apiEndpoint + url, { params });
-        // Remove the old error handling - let the calling service handle errors properly
+        return this.http.get<T>(environment.apiEndpoint + url, { params }).pipe(
+            // Responses without an ApiError body stay HttpErrorResponses, e.g. to detect an unreachable backend
+            catchError((error) =>
+                throwError(() =>
+                    error instanceof HttpErrorResponse && isApiError(error.error) ? toError(error.error) : error,
+                ),
+            ),
+        );
     }
 }
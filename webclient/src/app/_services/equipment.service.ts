@@ -1,79 +1,185 @@
 import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
+import { catchError, map, Observable, throwError } from 'rxjs';
 
-import { EquipmentSet } from '../_types/equipment-set';
 import { Cache } from '../_types/cache';
 import { cached } from '../_util/operators';
-import { Element } from '../_types/element';
+import { isUnreachable } from '../_util/http';
+import { EquipmentRequest } from '../_types/equipment-request';
+import { EquipmentResult } from '../_types/equipment-result';
+import { CalculationEngine } from '../_types/calculation-engine';
+import { RankedEquipmentSet } from '../_types/ranked-equipment-set';
+import { ParetoPoint } from '../_types/pareto-point';
+import { Stat } from '../_types/stat';
+import { getStatBounds } from '../_types/stat-bounds';
+import { ArmyRequest } from '../_types/army-request';
+import { ArmyUnitResult } from '../_types/army-unit-result';
+import { UpgradeStep } from '../_types/upgrade-step';
+import { CarryWeightBreakpoint } from '../_types/carry-weight-breakpoint';
+import { SlotExplanation } from '../_types/slot-explanation';
+import { EquipmentSet } from '../_types/equipment-set';
 
 import { CacheService } from './cache.service';
 import { ApiService } from './api.service';
+import { SolverService } from './solver.service';
 
 @Injectable({
     providedIn: 'root',
 })
 export class EquipmentService {
-    private equipmentCache: Cache<EquipmentSet>;
+    private equipmentCache: Cache<EquipmentResult>;
+    private paretoCache: Cache<Array<ParetoPoint>>;
+    private armyCache: Cache<Array<ArmyUnitResult>>;
+    private upgradePlanCache: Cache<Array<UpgradeStep>>;
+    private carryWeightCache: Cache<Array<CarryWeightBreakpoint>>;
+    private explanationCache: Cache<Array<SlotExplanation>>;
 
     constructor(
         private apiService: ApiService,
+        private solverService: SolverService,
         cacheService: CacheService,
     ) {
-        this.equipmentCache = cacheService.get<EquipmentSet>('equipmentCache');
+        this.equipmentCache = cacheService.get<EquipmentResult>('equipmentCache');
+        this.paretoCache = cacheService.get<Array<ParetoPoint>>('paretoCache');
+        this.armyCache = cacheService.get<Array<ArmyUnitResult>>('armyCache');
+        this.upgradePlanCache = cacheService.get<Array<UpgradeStep>>('upgradePlanCache');
+        this.carryWeightCache = cacheService.get<Array<CarryWeightBreakpoint>>('carryWeightCache');
+        this.explanationCache = cacheService.get<Array<SlotExplanation>>('explanationCache');
     }
 
     private static getCacheKey(...objects: Array<unknown>): string {
         return objects.join(':');
     }
 
-    getEquipment(
-        unitName: string,
-        carryWeight: number,
-        element: Element,
-        ranged: boolean,
-        waffenschmiede: number,
-        rangedRequired: boolean,
-        rangedForbidden: boolean,
-        apWeight: number,
-        vpWeight: number,
-        hpWeight: number,
-        mpWeight: number,
-        elementAttack?: Element,
-        elementDefense?: Element,
-        ignoredItems?: string[],
-    ): Observable<EquipmentSet> {
+    private static getWeightsKey(request: EquipmentRequest): string {
+        return EquipmentService.getCacheKey(
+            request.apWeight,
+            request.vpWeight,
+            request.hpWeight,
+            request.mpWeight,
+            request.baseAp,
+            request.baseVp,
+            request.baseHp,
+            request.baseMp,
+        );
+    }
+
+    // key of all properties that restrict the valid sets
+    private static getRequestKey(request: EquipmentRequest): string {
+        return EquipmentService.getCacheKey(
+            request.unitCarryWeight,
+            request.unitElement,
+            request.unitRanged,
+            request.waffenschmiede,
+            request.schmiedekunst,
+            request.rangedRequired,
+            request.rangedForbidden,
+            request.elementAttack,
+            request.elementDefense,
+            [...request.ignoredItems].sort().join('|'),
+            [...request.pinnedItems].sort().join('|'),
+            ...getStatBounds(request).map(({ stat, min, max }) => `${stat}${min ?? ''}-${max ?? ''}`),
+        );
+    }
+
+    /**
+     * Calculates the request.limit best equipment sets on the server.
+     * If the server is unreachable the client-side solver is used.
+     */
+    getEquipment(request: EquipmentRequest): Observable<EquipmentResult> {
         const cacheKey = EquipmentService.getCacheKey(
-            carryWeight,
-            element,
-            ranged,
-            waffenschmiede,
-            rangedRequired,
-            rangedForbidden,
-            apWeight,
-            vpWeight,
-            hpWeight,
-            mpWeight,
-            elementAttack,
-            elementDefense,
-            ignoredItems?.sort()?.join('|') || '',
+            EquipmentService.getRequestKey(request),
+            EquipmentService.getWeightsKey(request),
+            request.limit,
         );
 
         return this.apiService
-            .get<EquipmentSet>('/', {
-                unitCarryWeight: carryWeight,
-                unitElement: element,
-                unitRanged: ranged,
-                waffenschmiede,
-                rangedRequired,
-                rangedForbidden,
-                elementAttack,
-                elementDefense,
-                apWeight,
-                vpWeight,
-                hpWeight,
-                mpWeight,
-                ignoredItems: ignoredItems?.join(',') || '',
+            .get<Array<RankedEquipmentSet>>('/ranking', {
+                ...request,
+                ignoredItems: request.ignoredItems.join(','),
+                pinnedItems: request.pinnedItems.join(','),
             })
-            .pipe(cached(this.equipmentCache, cacheKey));
+            .pipe(
+                map((sets) => ({ sets, engine: CalculationEngine.SERVER })),
+                catchError((error) =>
+                    isUnreachable(error)
+                        ? this.solverService
+                              .getBestItemCombinations(request)
+                              .pipe(map((sets) => ({ sets, engine: CalculationEngine.CLIENT })))
+                        : throwError(() => error),
+                ),
+                cached(this.equipmentCache, cacheKey),
+            );
+    }
+
+    /**
+     * Calculates the sets that are not dominated in the two given stats. This is only done by the client-side solver.
+     */
+    getParetoFront(request: EquipmentRequest, xStat: Stat, yStat: Stat): Observable<Array<ParetoPoint>> {
+        const cacheKey = EquipmentService.getCacheKey(EquipmentService.getRequestKey(request), xStat, yStat);
+        return this.solverService.getParetoFront(request, xStat, yStat).pipe(cached(this.paretoCache, cacheKey));
+    }
+
+    /**
+     * Assigns a set to every unit of the army, sharing the items of the inventory. This is only done by the
+     * client-side solver.
+     */
+    getArmyAssignment(request: ArmyRequest): Observable<Array<ArmyUnitResult>> {
+        const cacheKey = EquipmentService.getCacheKey(
+            ...request.units.map((unit) =>
+                EquipmentService.getCacheKey(
+                    EquipmentService.getRequestKey(unit),
+                    EquipmentService.getWeightsKey(unit),
+                ),
+            ),
+            ...Object.entries(request.inventory)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, count]) => `${name}=${count}`),
+        );
+        return this.solverService.getArmyAssignment(request).pipe(cached(this.armyCache, cacheKey));
+    }
+
+    /**
+     * Calculates the best set for every Waffenschmiede level from the requested one up to the maximum. This is only
+     * done by the client-side solver.
+     */
+    getUpgradePlan(request: EquipmentRequest): Observable<Array<UpgradeStep>> {
+        const cacheKey = EquipmentService.getCacheKey(
+            EquipmentService.getRequestKey(request),
+            EquipmentService.getWeightsKey(request),
+        );
+        return this.solverService.getUpgradePlan(request).pipe(cached(this.upgradePlanCache, cacheKey));
+    }
+
+    /**
+     * Calculates the carry weights between from and to at which the best set changes. This is only done by the
+     * client-side solver.
+     */
+    getCarryWeightBreakpoints(
+        request: EquipmentRequest,
+        from: number,
+        to: number,
+    ): Observable<Array<CarryWeightBreakpoint>> {
+        // the carry weight of the request is replaced by the range
+        const cacheKey = EquipmentService.getCacheKey(
+            EquipmentService.getRequestKey({ ...request, unitCarryWeight: 0 }),
+            EquipmentService.getWeightsKey(request),
+            from,
+            to,
+        );
+        return this.solverService
+            .getCarryWeightBreakpoints(request, from, to)
+            .pipe(cached(this.carryWeightCache, cacheKey));
+    }
+
+    /**
+     * Explains the choice of the item in every slot of the set. This is only done by the client-side solver.
+     */
+    getSetExplanation(request: EquipmentRequest, set: EquipmentSet): Observable<Array<SlotExplanation>> {
+        const cacheKey = EquipmentService.getCacheKey(
+            EquipmentService.getRequestKey(request),
+            EquipmentService.getWeightsKey(request),
+            ...Object.values(set).map((equipment) => equipment.name),
+        );
+        return this.solverService.getSetExplanation(request, set).pipe(cached(this.explanationCache, cacheKey));
     }
 }
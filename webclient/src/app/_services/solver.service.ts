@@ -0,0 +1,108 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { defer, filter, map, merge, mergeMap, Observable, of, Subject, take, throwError } from 'rxjs';
+
+import { EquipmentRequest } from '../_types/equipment-request';
+import { RankedEquipmentSet } from '../_types/ranked-equipment-set';
+import { ParetoPoint } from '../_types/pareto-point';
+import { Stat } from '../_types/stat';
+import { ArmyRequest } from '../_types/army-request';
+import { ArmyUnitResult } from '../_types/army-unit-result';
+import { UpgradeStep } from '../_types/upgrade-step';
+import { CarryWeightBreakpoint } from '../_types/carry-weight-breakpoint';
+import { SlotExplanation } from '../_types/slot-explanation';
+import { EquipmentSet } from '../_types/equipment-set';
+import { InternalError } from '../_types/internal-error';
+import { runCommand } from '../_solver/run-command';
+import { SolverCommand, SolverCommandType, SolverResponseMessage } from '../_solver/solver-message';
+
+/**
+ * Runs the client-side equipment solver in a Web Worker so the UI stays responsive.
+ * Falls back to running it on the main thread if the browser does not support workers.
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class SolverService implements OnDestroy {
+    private worker?: Worker;
+    private responses$ = new Subject<SolverResponseMessage>();
+    // the worker failed outside of a command, e.g. its script couldn't be loaded
+    private workerErrors$ = new Subject<InternalError>();
+    private nextId = 0;
+
+    ngOnDestroy(): void {
+        this.worker?.terminate();
+    }
+
+    getBestItemCombinations(request: EquipmentRequest): Observable<Array<RankedEquipmentSet>> {
+        return this.run({ type: SolverCommandType.RANKING, request });
+    }
+
+    getParetoFront(request: EquipmentRequest, xStat: Stat, yStat: Stat): Observable<Array<ParetoPoint>> {
+        return this.run({ type: SolverCommandType.PARETO_FRONT, request, xStat, yStat });
+    }
+
+    getArmyAssignment(request: ArmyRequest): Observable<Array<ArmyUnitResult>> {
+        return this.run({ type: SolverCommandType.ARMY, request });
+    }
+
+    getUpgradePlan(request: EquipmentRequest): Observable<Array<UpgradeStep>> {
+        return this.run({ type: SolverCommandType.UPGRADE_PLAN, request });
+    }
+
+    getCarryWeightBreakpoints(
+        request: EquipmentRequest,
+        from: number,
+        to: number,
+    ): Observable<Array<CarryWeightBreakpoint>> {
+        return this.run({ type: SolverCommandType.CARRY_WEIGHT_SWEEP, request, from, to });
+    }
+
+    getSetExplanation(request: EquipmentRequest, set: EquipmentSet): Observable<Array<SlotExplanation>> {
+        return this.run({ type: SolverCommandType.SET_EXPLANATION, request, set });
+    }
+
+    private run<T>(command: SolverCommand): Observable<T> {
+        if (typeof Worker === 'undefined') {
+            return defer(() => of(runCommand(command) as T));
+        }
+
+        return new Observable<SolverResponseMessage>((subscriber) => {
+            const id = this.nextId++;
+            const subscription = merge(
+                this.responses$.pipe(filter((response) => response.id === id)),
+                this.workerErrors$.pipe(mergeMap((error) => throwError(() => error))),
+            )
+                .pipe(take(1))
+                .subscribe(subscriber);
+            this.getWorker().postMessage({ id, command });
+            return subscription;
+        }).pipe(
+            map((response) => {
+                if (response.error) throw response.error;
+                return response.result as T;
+            }),
+        );
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            this.worker = new Worker(new URL('../_solver/equipment-solver.worker', import.meta.url));
+            this.worker.onmessage = ({ data }: MessageEvent<SolverResponseMessage>) => this.responses$.next(data);
+            this.worker.onerror = (event) => {
+                event.preventDefault();
+                this.failWorker('Die Berechnung im Browser ist fehlgeschlagen.', event);
+            };
+            this.worker.onmessageerror = (event) =>
+                this.failWorker('Die Antwort der Berechnung im Browser ist ungültig.', event);
+        }
+        return this.worker;
+    }
+
+    // the pending commands fail and the next one starts a new worker
+    private failWorker(message: string, event: Event): void {
+        console.error(message, event);
+        this.worker?.terminate();
+        this.worker = undefined;
+        this.workerErrors$.next(new InternalError(message));
+    }
+}
@@ -1,7 +1,17 @@
 import { Injectable } from '@angular/core';
 
+import { Inventory } from '../_types/inventory';
+import { ArmyPlan, EMPTY_ARMY_PLAN } from '../_types/army-plan';
+import { Loadout } from '../_types/loadout';
+
 const WAFFENSCHMIEDE_KEY = 'WAFFENSCHMIEDE';
 const SCHMIEDEKUNST_KEY = 'SCHMIEDEKUNST';
+const INVENTORY_KEY = 'INVENTORY';
+const ONLY_OWNED_ITEMS_KEY = 'ONLY_OWNED_ITEMS';
+const IGNORED_ITEMS_KEY = 'IGNORED_ITEMS';
+const PINNED_ITEMS_KEY = 'PINNED_ITEMS';
+const ARMY_PLAN_KEY = 'ARMY_PLAN';
+const LOADOUTS_KEY = 'LOADOUTS';
 
 @Injectable({
     providedIn: 'root',
@@ -24,4 +34,62 @@ export class StorageService {
         const savedSK = localStorage.getItem(SCHMIEDEKUNST_KEY);
         return savedSK ? Number.parseInt(savedSK) : 0;
     }
+
+    saveInventory(inventory: Inventory): void {
+        localStorage.setItem(INVENTORY_KEY, JSON.stringify(inventory));
+    }
+
+    getInventory(): Inventory {
+        return this.getJson<Inventory>(INVENTORY_KEY, {});
+    }
+
+    saveOnlyOwnedItems(onlyOwnedItems: boolean): void {
+        localStorage.setItem(ONLY_OWNED_ITEMS_KEY, onlyOwnedItems + '');
+    }
+
+    getOnlyOwnedItems(): boolean {
+        return localStorage.getItem(ONLY_OWNED_ITEMS_KEY) === 'true';
+    }
+
+    saveIgnoredItems(ignoredItems: Array<string>): void {
+        localStorage.setItem(IGNORED_ITEMS_KEY, JSON.stringify(ignoredItems));
+    }
+
+    getIgnoredItems(): Array<string> {
+        return this.getJson<Array<string>>(IGNORED_ITEMS_KEY, []);
+    }
+
+    savePinnedItems(pinnedItems: Array<string>): void {
+        localStorage.setItem(PINNED_ITEMS_KEY, JSON.stringify(pinnedItems));
+    }
+
+    getPinnedItems(): Array<string> {
+        return this.getJson<Array<string>>(PINNED_ITEMS_KEY, []);
+    }
+
+    saveArmyPlan(armyPlan: ArmyPlan): void {
+        localStorage.setItem(ARMY_PLAN_KEY, JSON.stringify(armyPlan));
+    }
+
+    getArmyPlan(): ArmyPlan {
+        return this.getJson<ArmyPlan>(ARMY_PLAN_KEY, EMPTY_ARMY_PLAN);
+    }
+
+    saveLoadouts(loadouts: Array<Loadout>): void {
+        localStorage.setItem(LOADOUTS_KEY, JSON.stringify(loadouts));
+    }
+
+    getLoadouts(): Array<Loadout> {
+        return this.getJson<Array<Loadout>>(LOADOUTS_KEY, []);
+    }
+
+    private getJson<T>(key: string, defaultValue: T): T {
+        const saved = localStorage.getItem(key);
+        try {
+            return saved ? JSON.parse(saved) : defaultValue;
+        } catch (error) {
+            console.warn(`Ignoring invalid saved value of ${key}:`, error);
+            return defaultValue;
+        }
+    }
 }
@@ -0,0 +1,71 @@
+import { ArmyRequest } from '../_types/army-request';
+import { RankedEquipmentSet } from '../_types/ranked-equipment-set';
+import { availableCount, getUnownedItems } from '../_types/inventory';
+import { ArmyUnitResult } from '../_types/army-unit-result';
+import { Error, isError } from '../_types/error';
+
+import { getBestItemCombinations } from './equipment-solver';
+
+// rounds of the improvement step, each one recalculates every unit once
+const MAX_IMPROVEMENT_ROUNDS = 5;
+
+/**
+ * Assigns one set to every unit of the request without using more pieces of an item than the inventory holds,
+ * maximizing the sum of the weighted scores. The result has the same order as request.units.
+ *
+ * Finding the optimal assignment means trying all combinations of all sets, so this is a heuristic: the units
+ * that can reach the highest score choose first, afterwards every unit gives back its items and picks the best set
+ * from what is left until no unit can improve anymore. Units without a valid set, e.g. because of their element or
+ * because the inventory is used up, get the error instead and don't stop the other units.
+ */
+export function getArmyAssignment(request: ArmyRequest): Array<ArmyUnitResult> {
+    const { units, inventory } = request;
+    const assignment: Array<RankedEquipmentSet | undefined> = units.map(() => undefined);
+    const errors: Array<Error | undefined> = units.map(() => undefined);
+    // items the inventory holds no piece of can never be used
+    const unavailable = getUnownedItems(inventory);
+
+    const bestSet = (index: number): RankedEquipmentSet | undefined => {
+        const used = new Map<string, number>();
+        assignment.forEach((ranked, other) => {
+            if (!ranked || other === index) return;
+            Object.values(ranked.set).forEach((item) => used.set(item.name, (used.get(item.name) ?? 0) + 1));
+        });
+        const usedUp = [...used.entries()]
+            .filter(([name, count]) => count >= availableCount(inventory, name))
+            .map(([name]) => name);
+        const unit = units[index];
+        const ignoredItems = [...unit.ignoredItems, ...usedUp, ...unavailable];
+        try {
+            const [best] = getBestItemCombinations({ ...unit, ignoredItems, limit: 1 });
+            errors[index] = undefined;
+            return best;
+        } catch (error) {
+            if (!isError(error)) throw error;
+            errors[index] = error;
+            return undefined;
+        }
+    };
+
+    // units without a set even with the whole inventory are left out
+    const order = units
+        .map((_, index) => ({ index, score: bestSet(index)?.score }))
+        .filter((entry): entry is { index: number; score: number } => entry.score !== undefined)
+        .sort((a, b) => b.score - a.score)
+        .map(({ index }) => index);
+    order.forEach((index) => (assignment[index] = bestSet(index)));
+
+    for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS; round++) {
+        let improved = false;
+        for (const index of order) {
+            const candidate = bestSet(index);
+            if (candidate && candidate.score > (assignment[index]?.score ?? Number.NEGATIVE_INFINITY)) {
+                assignment[index] = candidate;
+                improved = true;
+            }
+        }
+        if (!improved) break;
+    }
+
+    return assignment.map((best, index) => (best ? { best } : { error: errors[index] }));
+}
@@ -0,0 +1,67 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { EquipmentSet } from '../_types/equipment-set';
+import { RankedEquipmentSet } from '../_types/ranked-equipment-set';
+import { CarryWeightBreakpoint, ItemSwap } from '../_types/carry-weight-breakpoint';
+import { Error, isError } from '../_types/error';
+
+import { getBestItemCombinations } from './equipment-solver';
+
+/**
+ * Returns the carry weights between from and to at which the best set of the request gets a higher score, starting
+ * with the best set at from. The score can only grow with the carry weight, so every breakpoint is found by a binary
+ * search instead of calculating every single weight. If no weight of the range has a valid set, the error of the
+ * highest weight is thrown.
+ */
+export function getCarryWeightBreakpoints(
+    request: EquipmentRequest,
+    from: number,
+    to: number,
+): Array<CarryWeightBreakpoint> {
+    const results = new Map<number, RankedEquipmentSet | undefined>();
+    let lastError: Error | undefined;
+
+    const bestAt = (unitCarryWeight: number): RankedEquipmentSet | undefined => {
+        if (!results.has(unitCarryWeight)) {
+            try {
+                results.set(unitCarryWeight, getBestItemCombinations({ ...request, unitCarryWeight, limit: 1 })[0]);
+            } catch (error) {
+                if (!isError(error)) throw error;
+                lastError = error;
+                results.set(unitCarryWeight, undefined);
+            }
+        }
+        return results.get(unitCarryWeight);
+    };
+    const scoreAt = (carryWeight: number) => bestAt(carryWeight)?.score ?? -Infinity;
+
+    const breakpoints: Array<CarryWeightBreakpoint> = [{ carryWeight: from, best: bestAt(from), swaps: [] }];
+    let current = from;
+    while (current < to && scoreAt(to) > scoreAt(current)) {
+        // the lowest weight with a higher score lies in (low, high]
+        let low = current;
+        let high = to;
+        while (high - low > 1) {
+            const middle = Math.floor((low + high) / 2);
+            if (scoreAt(middle) > scoreAt(current)) {
+                high = middle;
+            } else {
+                low = middle;
+            }
+        }
+
+        const previous = breakpoints[breakpoints.length - 1].best;
+        const best = bestAt(high);
+        breakpoints.push({ carryWeight: high, best, swaps: getSwaps(previous?.set, best?.set) });
+        current = high;
+    }
+
+    if (breakpoints.every((breakpoint) => !breakpoint.best)) throw lastError;
+    return breakpoints;
+}
+
+function getSwaps(previous: EquipmentSet | undefined, next: EquipmentSet | undefined): Array<ItemSwap> {
+    if (!previous || !next) return [];
+    return (Object.keys(next) as Array<keyof EquipmentSet>)
+        .filter((slot) => previous[slot].name !== next[slot].name)
+        .map((slot) => ({ removed: previous[slot].name, added: next[slot].name }));
+}
@@ -0,0 +1,264 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { EquipmentSet } from '../_types/equipment-set';
+import { RankedEquipmentSet } from '../_types/ranked-equipment-set';
+import {
+    ALL_ACCESSORIES,
+    ALL_ARMOUR,
+    ALL_HELMETS,
+    ALL_SHIELDS,
+    ALL_WEAPONS,
+    Equipment,
+    statValue,
+    weightedValue,
+} from '../_types/equipment';
+import { Error } from '../_types/error';
+import { getStatBounds, StatBound } from '../_types/stat-bounds';
+import { StatBoundError } from '../_types/stat-bound-error';
+import { Element } from '../_types/element';
+import { MAX_WEIGHT_BONUS } from '../_constants/equipment.constants';
+import { ElementMismatchError } from '../_types/element-mismatch-error';
+import { InvalidItemCombinationError } from '../_types/invalid-item-combination-error';
+import { getPinnedItemsError } from '../_util/pinned-items';
+import {
+    combineElements,
+    getWantedDefenseElements,
+    getWantedWeaponElements,
+    isValidElementCombination,
+} from '../_util/element-rules';
+
+/**
+ * The items per slot that are valid on their own for a request, in the order the slots are searched.
+ */
+export interface SearchSpace {
+    request: EquipmentRequest;
+    maxWeight: number;
+    weapons: Array<Equipment>;
+    armours: Array<Equipment>;
+    shields: Array<Equipment>;
+    helmets: Array<Equipment>;
+    accessories: Array<Equipment>;
+    bounds: Array<StatBound>;
+}
+
+/**
+ * Validates the request like the backend does and filters the items that can never be part of a valid set.
+ * Errors are thrown as the typed errors the store already knows how to display.
+ */
+export function getSearchSpace(request: EquipmentRequest): SearchSpace {
+    const { unitElement, unitCarryWeight, unitRanged, rangedRequired, rangedForbidden } = request;
+    const { elementAttack, elementDefense } = request;
+
+    if ((rangedRequired && rangedForbidden) || (rangedRequired && !unitRanged)) {
+        throw new InvalidItemCombinationError();
+    }
+    if (!isValidElementCombination(unitElement, elementAttack, elementDefense)) {
+        throw new ElementMismatchError();
+    }
+
+    const wantedWeaponElements = getWantedWeaponElements(unitElement, elementAttack);
+    const wantedDefenseElements = getWantedDefenseElements(unitElement, elementDefense);
+    if (!wantedWeaponElements || !wantedDefenseElements) throw new ElementMismatchError();
+
+    const pinnedItemsError = getPinnedItemsError(request);
+    if (pinnedItemsError) throw pinnedItemsError;
+
+    const maxWeight = unitCarryWeight + MAX_WEIGHT_BONUS;
+    return {
+        request,
+        maxWeight,
+        weapons: filterInvalidItems(request, maxWeight, ALL_WEAPONS, wantedWeaponElements, true),
+        armours: filterInvalidItems(request, maxWeight, ALL_ARMOUR, wantedDefenseElements),
+        shields: filterInvalidItems(request, maxWeight, ALL_SHIELDS, wantedDefenseElements),
+        helmets: filterInvalidItems(request, maxWeight, ALL_HELMETS),
+        accessories: filterInvalidItems(request, maxWeight, ALL_ACCESSORIES),
+        bounds: getStatBounds(request),
+    };
+}
+
+/**
+ * Client-side port of the search loop of EquipmentController.getBestItemCombinations. Calls visit for every valid
+ * set in the order the backend finds them. Before an item is added, canContinue gets the items chosen so far
+ * (weapon, armour, shield, helmet); returning false skips all sets starting with these items.
+ * Sets outside of the stat bounds of the space are not visited.
+ */
+export function searchItemCombinations(
+    space: SearchSpace,
+    visit: (set: EquipmentSet) => void,
+    canContinue?: (items: Array<Equipment>) => boolean,
+): void {
+    const { request, maxWeight, weapons, armours, shields, helmets, accessories } = space;
+    const { unitElement, unitCarryWeight, elementAttack, elementDefense } = request;
+    const withinBounds = createBoundsCheck(space);
+    const shouldContinue = (items: Array<Equipment>) => withinBounds(items) && (!canContinue || canContinue(items));
+
+    for (const weapon of weapons) {
+        const weaponElement = combineElements(unitElement, weapon.element);
+        if (weaponElement === undefined) continue;
+        if (elementAttack !== undefined && weaponElement !== elementAttack) continue;
+        if (!shouldContinue([weapon])) continue;
+
+        for (const armour of armours) {
+            const armourWeight = weapon.weight + armour.weight;
+            const armourElement = combineElements(weaponElement, armour.element);
+            if (armourElement === undefined || armourWeight > maxWeight) continue;
+            if (!shouldContinue([weapon, armour])) continue;
+
+            for (const shield of shields) {
+                const shieldWeight = armourWeight + shield.weight;
+                const shieldElement = combineElements(armourElement, shield.element);
+                if (shieldElement === undefined || shieldWeight > maxWeight) continue;
+                if (
+                    elementDefense !== undefined &&
+                    combineElements(unitElement, armour.element, shield.element) !== elementDefense
+                ) {
+                    continue;
+                }
+                if (!shouldContinue([weapon, armour, shield])) continue;
+
+                for (const helmet of helmets) {
+                    const helmetWeight = shieldWeight + helmet.weight;
+                    const helmetElement = combineElements(shieldElement, helmet.element);
+                    if (helmetElement === undefined || helmetWeight > maxWeight) continue;
+                    if (!shouldContinue([weapon, armour, shield, helmet])) continue;
+
+                    for (const accessory of accessories) {
+                        // like the backend, the complete set has to fit the carry weight without the bonus
+                        if (helmetWeight + accessory.weight > unitCarryWeight) continue;
+                        if (!isValidElementCombination(helmetElement, accessory.element)) continue;
+                        if (!withinBounds([weapon, armour, shield, helmet, accessory])) continue;
+
+                        visit({ weapon, shield, helmet, armour, accessory });
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Client-side port of EquipmentController.getBestItemCombinations of the backend, used when the API is unreachable.
+ * Returns the request.limit best sets ordered by their weighted score including the Schmiedekunst bonus.
+ */
+export function getBestItemCombinations(request: EquipmentRequest): Array<RankedEquipmentSet> {
+    const space = getSearchSpace(request);
+    const result = rankItemCombinations(
+        space,
+        (equipment) => weightedValue(equipment, request, request.schmiedekunst),
+        request.limit,
+    );
+
+    if (result.length === 0) throw getNoSetFoundError(space);
+    return result;
+}
+
+/**
+ * Returns the upper bound of what the remaining slots can add to the value after the first n items, for n from 0 to 5.
+ */
+export function remainingMaxima(space: SearchSpace, value: (equipment: Equipment) => number): Array<number> {
+    const slots = [space.weapons, space.armours, space.shields, space.helmets, space.accessories];
+    return Array.from({ length: slots.length + 1 }, (_, index) =>
+        slots.slice(index).reduce((acc, items) => acc + Math.max(...items.map(value)), 0),
+    );
+}
+
+/**
+ * The error to throw if a search found no set. If the stat bounds are the reason, the error names the first bound
+ * that no valid set can meet.
+ */
+export function getNoSetFoundError(space: SearchSpace): Error {
+    const { bounds, request } = space;
+    if (bounds.length === 0) return new InvalidItemCombinationError();
+
+    const unbounded = { ...space, bounds: [] };
+    for (const { stat, min, max } of bounds) {
+        const value = (equipment: Equipment) => statValue(equipment, stat, request.schmiedekunst);
+        const [highest] = rankItemCombinations(unbounded, value, 1);
+        const [lowest] = rankItemCombinations(unbounded, (equipment) => -value(equipment), 1);
+        if (!highest || !lowest) return new InvalidItemCombinationError();
+
+        if (min !== undefined && highest.score < min) {
+            return new StatBoundError(
+                `Mindestwert ${min} ${stat} nicht erreichbar, höchstens ${highest.score} ${stat} möglich.`,
+            );
+        }
+        if (max !== undefined && -lowest.score > max) {
+            return new StatBoundError(
+                `Höchstwert ${max} ${stat} nicht einhaltbar, mindestens ${-lowest.score} ${stat} nötig.`,
+            );
+        }
+    }
+    return new StatBoundError();
+}
+
+function rankItemCombinations(
+    space: SearchSpace,
+    score: (equipment: Equipment) => number,
+    limit: number,
+): Array<RankedEquipmentSet> {
+    const result: Array<RankedEquipmentSet> = [];
+    // Upper bounds of the score the remaining slots can add, used to skip branches that cannot enter the ranking
+    const bounds = remainingMaxima(space, score);
+
+    searchItemCombinations(
+        space,
+        (set) => {
+            const setScore = Object.values(set).reduce((acc, curr) => acc + score(curr), 0);
+            if (result.length < limit || setScore > result[limit - 1].score) {
+                insertRanked(result, { set, score: setScore }, limit);
+            }
+        },
+        (items) =>
+            result.length < limit ||
+            items.reduce((acc, curr) => acc + score(curr), bounds[items.length]) > result[limit - 1].score,
+    );
+    return result;
+}
+
+// Checks if the given items can still be completed to a set within the stat bounds, or are within them if complete
+function createBoundsCheck(space: SearchSpace): (items: Array<Equipment>) => boolean {
+    const checks = space.bounds.map((bound) => {
+        const value = (equipment: Equipment) => statValue(equipment, bound.stat, space.request.schmiedekunst);
+        const highest = remainingMaxima(space, value);
+        const lowest = remainingMaxima(space, (equipment) => -value(equipment));
+        return (items: Array<Equipment>) => {
+            const total = items.reduce((acc, curr) => acc + value(curr), 0);
+            return (
+                (bound.min === undefined || total + highest[items.length] >= bound.min) &&
+                (bound.max === undefined || total - lowest[items.length] <= bound.max)
+            );
+        };
+    });
+    return (items) => checks.every((check) => check(items));
+}
+
+// Sets with the same score keep the order in which they were found, like in the backend
+function insertRanked(ranking: Array<RankedEquipmentSet>, entry: RankedEquipmentSet, limit: number): void {
+    const index = ranking.findIndex((ranked) => ranked.score < entry.score);
+    ranking.splice(index === -1 ? ranking.length : index, 0, entry);
+    if (ranking.length > limit) ranking.pop();
+}
+
+function filterInvalidItems(
+    request: EquipmentRequest,
+    maxWeight: number,
+    equipment: Array<Equipment>,
+    wantedElements: Array<Element> = [],
+    weapons = false,
+): Array<Equipment> {
+    const { unitElement, unitRanged, waffenschmiede, ignoredItems, pinnedItems } = request;
+    const rangedRequired = weapons && request.rangedRequired;
+    const rangedForbidden = weapons && request.rangedForbidden;
+    // a pinned item replaces all other items of its slot
+    const pinned = equipment.filter((item) => pinnedItems.includes(item.name));
+    return (pinned.length > 0 ? pinned : equipment).filter(
+        (item) =>
+            isValidElementCombination(unitElement, item.element) &&
+            waffenschmiede >= item.requiredWaffenschmiede &&
+            maxWeight >= item.weight &&
+            !(rangedRequired && !item.ranged) &&
+            !(rangedForbidden && item.ranged) &&
+            (unitRanged || !item.ranged) &&
+            (wantedElements.length === 0 || wantedElements.includes(item.element)) &&
+            !ignoredItems.includes(item.name),
+    );
+}
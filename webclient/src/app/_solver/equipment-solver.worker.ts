@@ -0,0 +1,20 @@
+/// <reference lib="webworker" />
+
+import { isError } from '../_types/error';
+import { ErrorType } from '../_types/error-type';
+
+import { runCommand } from './run-command';
+import { SolverRequestMessage, SolverResponseMessage } from './solver-message';
+
+addEventListener('message', ({ data }: MessageEvent<SolverRequestMessage>) => {
+    let response: SolverResponseMessage;
+    try {
+        response = { id: data.id, result: runCommand(data.command) };
+    } catch (error) {
+        response = {
+            id: data.id,
+            error: isError(error) ? { ...error } : { type: ErrorType.INTERNAL_ERROR, message: `${error}` },
+        };
+    }
+    postMessage(response);
+});
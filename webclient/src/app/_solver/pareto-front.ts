@@ -0,0 +1,42 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { ParetoPoint } from '../_types/pareto-point';
+import { Stat } from '../_types/stat';
+import { Equipment, statValue } from '../_types/equipment';
+
+import { getNoSetFoundError, getSearchSpace, remainingMaxima, searchItemCombinations } from './equipment-solver';
+
+/**
+ * Returns the sets of the request that are not dominated in the two given stats, ordered by the x stat.
+ * A set dominates another one if it is at least as good in both stats and better in one of them.
+ * Of several sets with equal values only the first one found is kept.
+ */
+export function getParetoFront(request: EquipmentRequest, xStat: Stat, yStat: Stat): Array<ParetoPoint> {
+    const space = getSearchSpace(request);
+    const x = (equipment: Equipment) => statValue(equipment, xStat, request.schmiedekunst);
+    const y = (equipment: Equipment) => statValue(equipment, yStat, request.schmiedekunst);
+    const sum = (items: Array<Equipment>, value: (equipment: Equipment) => number, start = 0) =>
+        items.reduce((acc, curr) => acc + value(curr), start);
+
+    // Upper bounds of what the remaining slots can add, per number of items chosen so far
+    const xBounds = remainingMaxima(space, x);
+    const yBounds = remainingMaxima(space, y);
+
+    let front: Array<ParetoPoint> = [];
+    const isCovered = (pointX: number, pointY: number) => front.some((point) => point.x >= pointX && point.y >= pointY);
+
+    searchItemCombinations(
+        space,
+        (set) => {
+            const items = Object.values(set);
+            const setX = sum(items, x);
+            const setY = sum(items, y);
+            if (isCovered(setX, setY)) return;
+            front = front.filter((point) => point.x > setX || point.y > setY);
+            front.push({ set, x: setX, y: setY });
+        },
+        (items) => !isCovered(sum(items, x, xBounds[items.length]), sum(items, y, yBounds[items.length])),
+    );
+
+    if (front.length === 0) throw getNoSetFoundError(space);
+    return front.sort((a, b) => a.x - b.x);
+}
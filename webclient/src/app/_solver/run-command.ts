@@ -0,0 +1,24 @@
+import { getBestItemCombinations } from './equipment-solver';
+import { getParetoFront } from './pareto-front';
+import { getArmyAssignment } from './army-solver';
+import { getUpgradePlan } from './upgrade-plan';
+import { getCarryWeightBreakpoints } from './carry-weight-sweep';
+import { getSetExplanation } from './set-explanation';
+import { SolverCommand, SolverCommandType } from './solver-message';
+
+export function runCommand(command: SolverCommand): unknown {
+    switch (command.type) {
+        case SolverCommandType.RANKING:
+            return getBestItemCombinations(command.request);
+        case SolverCommandType.PARETO_FRONT:
+            return getParetoFront(command.request, command.xStat, command.yStat);
+        case SolverCommandType.ARMY:
+            return getArmyAssignment(command.request);
+        case SolverCommandType.UPGRADE_PLAN:
+            return getUpgradePlan(command.request);
+        case SolverCommandType.CARRY_WEIGHT_SWEEP:
+            return getCarryWeightBreakpoints(command.request, command.from, command.to);
+        case SolverCommandType.SET_EXPLANATION:
+            return getSetExplanation(command.request, command.set);
+    }
+}
@@ -0,0 +1,104 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { EquipmentSet } from '../_types/equipment-set';
+import { Equipment, weightedValue } from '../_types/equipment';
+import { EquipmentSlot, equipmentSlots, getSetKey, getSlotItems } from '../_types/equipment-slot';
+import { RejectedItem, RejectionReason, SlotExplanation } from '../_types/slot-explanation';
+
+import { getSearchSpace, SearchSpace, searchItemCombinations } from './equipment-solver';
+
+type SlotItemsKey = 'weapons' | 'shields' | 'armours' | 'helmets' | 'accessories';
+
+const SPACE_KEYS: Record<EquipmentSlot, SlotItemsKey> = {
+    [EquipmentSlot.WEAPON]: 'weapons',
+    [EquipmentSlot.SHIELD]: 'shields',
+    [EquipmentSlot.ARMOUR]: 'armours',
+    [EquipmentSlot.HELMET]: 'helmets',
+    [EquipmentSlot.ACCESSORY]: 'accessories',
+};
+
+/**
+ * Explains every slot of the set by replacing its item while the items of the other slots stay the same: which other
+ * item would be the best replacement and why the items with a higher weighted score cannot be used.
+ */
+export function getSetExplanation(request: EquipmentRequest, set: EquipmentSet): Array<SlotExplanation> {
+    const space = getSearchSpace(request);
+    const value = (equipment: Equipment) => weightedValue(equipment, request, request.schmiedekunst);
+    // the same checks without carry weight and stat bounds, to tell these reasons from element clashes
+    const relaxed: SearchSpace = {
+        ...space,
+        request: { ...request, unitCarryWeight: Infinity },
+        maxWeight: Infinity,
+        bounds: [],
+    };
+
+    return equipmentSlots.map((slot) => {
+        const item = set[getSetKey(slot)];
+        const withItem = (candidate: Equipment) => ({ ...set, [getSetKey(slot)]: candidate });
+        const explanation: SlotExplanation = { slot, item: item.name, pinned: false, rejected: [] };
+        if (request.pinnedItems.includes(item.name)) return { ...explanation, pinned: true };
+
+        const candidates = space[SPACE_KEYS[slot]].filter((candidate) => candidate.name !== item.name);
+        const valid = candidates.filter((candidate) => isValidSet(space, withItem(candidate)));
+        const alternative = valid.reduce<Equipment | undefined>(
+            (best, candidate) => (!best || value(candidate) > value(best) ? candidate : best),
+            undefined,
+        );
+
+        // only the best item per reason, otherwise the many items of higher Waffenschmiede levels hide the rest
+        const rejected: Array<RejectedItem> = getSlotItems(slot)
+            .filter((candidate) => value(candidate) > value(item) && !valid.includes(candidate))
+            .sort((a, b) => value(b) - value(a))
+            .map((candidate) => ({
+                name: candidate.name,
+                scoreDifference: value(candidate) - value(item),
+                reason: getRejectionReason(request, space, relaxed, slot, withItem(candidate)),
+            }))
+            .filter(
+                (rejectedItem, index, all) => all.findIndex((other) => other.reason === rejectedItem.reason) === index,
+            );
+
+        return {
+            ...explanation,
+            alternative: alternative?.name,
+            scoreDifference: alternative && value(item) - value(alternative),
+            rejected,
+        };
+    });
+}
+
+function getRejectionReason(
+    request: EquipmentRequest,
+    space: SearchSpace,
+    relaxed: SearchSpace,
+    slot: EquipmentSlot,
+    set: EquipmentSet,
+): RejectionReason {
+    const item = set[getSetKey(slot)];
+    if (request.ignoredItems.includes(item.name)) return RejectionReason.IGNORED;
+    if (item.requiredWaffenschmiede > request.waffenschmiede) return RejectionReason.WAFFENSCHMIEDE;
+    if (item.ranged && (!request.unitRanged || request.rangedForbidden)) return RejectionReason.RANGED;
+    if (slot === EquipmentSlot.WEAPON && request.rangedRequired && !item.ranged) return RejectionReason.RANGED;
+    // items that are not too heavy on their own were filtered because of their element
+    const filtered = !space[SPACE_KEYS[slot]].includes(item);
+    if ((filtered && item.weight <= space.maxWeight) || !isValidSet(relaxed, set)) return RejectionReason.ELEMENT;
+
+    const weight = Object.values(set).reduce((acc, curr) => acc + curr.weight, 0);
+    return weight > request.unitCarryWeight ? RejectionReason.WEIGHT : RejectionReason.STAT_BOUNDS;
+}
+
+// whether the search would find exactly this set, which applies all rules of the request
+function isValidSet(space: SearchSpace, set: EquipmentSet): boolean {
+    let found = false;
+    searchItemCombinations(
+        {
+            ...space,
+            weapons: [set.weapon],
+            shields: [set.shield],
+            armours: [set.armour],
+            helmets: [set.helmet],
+            accessories: [set.accessory],
+        },
+        () => (found = true),
+    );
+    return found;
+}
@@ -0,0 +1,33 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { Error } from '../_types/error';
+import { Stat } from '../_types/stat';
+import { ArmyRequest } from '../_types/army-request';
+import { EquipmentSet } from '../_types/equipment-set';
+
+export enum SolverCommandType {
+    RANKING = 'RANKING',
+    PARETO_FRONT = 'PARETO_FRONT',
+    ARMY = 'ARMY',
+    UPGRADE_PLAN = 'UPGRADE_PLAN',
+    CARRY_WEIGHT_SWEEP = 'CARRY_WEIGHT_SWEEP',
+    SET_EXPLANATION = 'SET_EXPLANATION',
+}
+
+export type SolverCommand =
+    | { type: SolverCommandType.RANKING; request: EquipmentRequest }
+    | { type: SolverCommandType.PARETO_FRONT; request: EquipmentRequest; xStat: Stat; yStat: Stat }
+    | { type: SolverCommandType.ARMY; request: ArmyRequest }
+    | { type: SolverCommandType.UPGRADE_PLAN; request: EquipmentRequest }
+    | { type: SolverCommandType.CARRY_WEIGHT_SWEEP; request: EquipmentRequest; from: number; to: number }
+    | { type: SolverCommandType.SET_EXPLANATION; request: EquipmentRequest; set: EquipmentSet };
+
+export interface SolverRequestMessage {
+    id: number;
+    command: SolverCommand;
+}
+
+export interface SolverResponseMessage {
+    id: number;
+    result?: unknown;
+    error?: Error;
+}
@@ -0,0 +1,42 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { UpgradeStep } from '../_types/upgrade-step';
+import { Error, isError } from '../_types/error';
+import { equipmentSlots, getSlotItems } from '../_types/equipment-slot';
+import { DEFAULT_EQUIPMENT_NAME, MAX_WAFFENSCHMIEDE } from '../_constants/equipment.constants';
+
+import { getBestItemCombinations } from './equipment-solver';
+
+/**
+ * Returns the best set of the request for every Waffenschmiede level from request.waffenschmiede up to the maximum.
+ * Levels without a valid set, e.g. because a pinned item needs a higher level, have no set. If no level has one, the
+ * error of the highest level is thrown.
+ */
+export function getUpgradePlan(request: EquipmentRequest): Array<UpgradeStep> {
+    const levels = Array.from(
+        { length: Math.max(MAX_WAFFENSCHMIEDE - request.waffenschmiede, 0) + 1 },
+        (_, index) => request.waffenschmiede + index,
+    );
+    let lastError: Error | undefined;
+
+    const plan = levels.map((waffenschmiede, index) => {
+        const unlockedItems = index === 0 ? [] : getUnlockedItems(waffenschmiede);
+        try {
+            const [best] = getBestItemCombinations({ ...request, waffenschmiede, limit: 1 });
+            return { waffenschmiede, best, unlockedItems };
+        } catch (error) {
+            if (!isError(error)) throw error;
+            lastError = error;
+            return { waffenschmiede, unlockedItems };
+        }
+    });
+
+    if (plan.every((step) => !step.best)) throw lastError;
+    return plan;
+}
+
+function getUnlockedItems(waffenschmiede: number): Array<string> {
+    return equipmentSlots
+        .flatMap((slot) => getSlotItems(slot))
+        .filter((item) => item.requiredWaffenschmiede === waffenschmiede && item.name !== DEFAULT_EQUIPMENT_NAME)
+        .map((item) => item.name);
+}
@@ -1,6 +1,23 @@
+import { ErrorType } from './error-type';
+import { Error } from './error';
+
+// e.g. { constraint: 'MIN', stat: 'AP', bound: 120, limit: 96 }
+export type ApiErrorDetails = Record<string, string | number>;
+
+/**
+ * Body of every error response of the calculation API.
+ */
 export interface ApiError {
-    error: {
-        message: string;
-        status: number;
-    };
+    code: ErrorType;
+    message: string;
+    details: ApiErrorDetails;
+}
+
+export function isApiError(value: unknown): value is ApiError {
+    const error = value as Partial<ApiError> | undefined;
+    return !!error && Object.values(ErrorType).includes(error.code as ErrorType) && typeof error.message === 'string';
+}
+
+export function toError({ code, message, details }: ApiError): Error {
+    return { type: code, message, details };
 }
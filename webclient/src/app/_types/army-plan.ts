@@ -0,0 +1,17 @@
+/**
+ * A unit of the saved army plan. The unit and the weighting of its set are referenced by name.
+ */
+export interface ArmyPlanEntry {
+    unitName: string;
+    count: number;
+    weighting: string;
+}
+
+export interface ArmyPlan {
+    kpBudget: number;
+    entries: Array<ArmyPlanEntry>;
+}
+
+export const DEFAULT_KP_BUDGET = 1000;
+
+export const EMPTY_ARMY_PLAN: ArmyPlan = { kpBudget: DEFAULT_KP_BUDGET, entries: [] };
@@ -0,0 +1,10 @@
+import { EquipmentRequest } from './equipment-request';
+import { Inventory } from './inventory';
+
+/**
+ * Parameters of an army calculation: one request per unit, all sharing the items of the inventory.
+ */
+export interface ArmyRequest {
+    units: Array<EquipmentRequest>;
+    inventory: Inventory;
+}
@@ -0,0 +1,9 @@
+import { Error } from './error';
+import { RankedEquipmentSet } from './ranked-equipment-set';
+
+export interface ArmyUnitResult {
+    // the set assigned to the unit, undefined if the unit has no valid set
+    best?: RankedEquipmentSet;
+    // why the unit has no set
+    error?: Error;
+}
@@ -0,0 +1,44 @@
+import { Stat } from './stat';
+import { Unit } from './unit';
+
+/**
+ * Stats of the unit without equipment. If a request contains them, sets are ranked by their weighted improvement over
+ * them in percent. The property names match the query parameters of the API.
+ */
+export interface BaseStats {
+    baseAp: number;
+    baseVp: number;
+    baseHp: number;
+    baseMp: number;
+}
+
+export function getBaseStats(unit: Unit): BaseStats {
+    return { baseAp: unit.ap, baseVp: unit.vp, baseHp: unit.hp, baseMp: unit.mp };
+}
+
+export function hasBaseStats(stats: Partial<BaseStats>): stats is BaseStats {
+    return (
+        stats.baseAp !== undefined &&
+        stats.baseVp !== undefined &&
+        stats.baseHp !== undefined &&
+        stats.baseMp !== undefined
+    );
+}
+
+export function baseStat(baseStats: BaseStats, stat: Stat): number {
+    switch (stat) {
+        case Stat.AP:
+            return baseStats.baseAp;
+        case Stat.VP:
+            return baseStats.baseVp;
+        case Stat.HP:
+            return baseStats.baseHp;
+        case Stat.MP:
+            return baseStats.baseMp;
+    }
+}
+
+// Improvement of a stat in percent, stats the unit does not have are not counted
+export function percentOf(value: number, base: number): number {
+    return base > 0 ? (value * 100) / base : 0;
+}
@@ -0,0 +1,4 @@
+export enum CalculationEngine {
+    SERVER = 'SERVER',
+    CLIENT = 'CLIENT',
+}
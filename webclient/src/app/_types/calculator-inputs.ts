@@ -0,0 +1,65 @@
+import { Element } from './element';
+import { StatBounds } from './stat-bounds';
+
+/**
+ * The inputs of the equipment calculator that determine its calculation, shared by permalinks and saved loadouts.
+ */
+export interface CalculatorInputs {
+    selectedUnit?: string;
+    carryWeight: number;
+    element: Element;
+    ranged: boolean;
+    rangedRequired: boolean;
+    rangedForbidden: boolean;
+    elementAttack?: Element;
+    elementDefense?: Element;
+    apWeight: number;
+    vpWeight: number;
+    hpWeight: number;
+    mpWeight: number;
+    waffenschmiede: number;
+    schmiedekunst: number;
+    ignoredItems: Array<string>;
+}
+
+/**
+ * The options of the calculator besides the inputs, restored by permalinks and saved loadouts too.
+ */
+export interface CalculatorLinkOptions {
+    pinnedItems: Array<string>;
+    statBounds: StatBounds;
+    onlyOwnedItems: boolean;
+    relativeScore: boolean;
+    rankingSize: number;
+}
+
+// copies only the inputs, e.g. out of the state of the calculator
+export function getCalculatorInputs(inputs: CalculatorInputs): CalculatorInputs {
+    return {
+        selectedUnit: inputs.selectedUnit,
+        carryWeight: inputs.carryWeight,
+        element: inputs.element,
+        ranged: inputs.ranged,
+        rangedRequired: inputs.rangedRequired,
+        rangedForbidden: inputs.rangedForbidden,
+        elementAttack: inputs.elementAttack,
+        elementDefense: inputs.elementDefense,
+        apWeight: inputs.apWeight,
+        vpWeight: inputs.vpWeight,
+        hpWeight: inputs.hpWeight,
+        mpWeight: inputs.mpWeight,
+        waffenschmiede: inputs.waffenschmiede,
+        schmiedekunst: inputs.schmiedekunst,
+        ignoredItems: [...inputs.ignoredItems],
+    };
+}
+
+export function getCalculatorLinkOptions(options: CalculatorLinkOptions): CalculatorLinkOptions {
+    return {
+        pinnedItems: [...options.pinnedItems],
+        statBounds: { ...options.statBounds },
+        onlyOwnedItems: options.onlyOwnedItems,
+        relativeScore: options.relativeScore,
+        rankingSize: options.rankingSize,
+    };
+}
@@ -0,0 +1,17 @@
+import { RankedEquipmentSet } from './ranked-equipment-set';
+
+export interface ItemSwap {
+    removed: string;
+    added: string;
+}
+
+/**
+ * The best set from carryWeight up to the carry weight of the next breakpoint.
+ */
+export interface CarryWeightBreakpoint {
+    carryWeight: number;
+    // undefined if no valid set fits this carry weight
+    best?: RankedEquipmentSet;
+    // the items that differ from the set of the previous breakpoint, empty for the first one
+    swaps: Array<ItemSwap>;
+}
@@ -0,0 +1,39 @@
+import { EquipmentRequest } from './equipment-request';
+import { StatWeights } from './stat-weights';
+import { Unit } from './unit';
+
+export interface DefaultWeighting extends StatWeights {
+    name: string;
+}
+
+export const DEFAULT_WEIGHTINGS: Array<DefaultWeighting> = [
+    { name: 'Angriff', apWeight: 1, vpWeight: 0, hpWeight: 0, mpWeight: 0 },
+    { name: 'Verteidigung', apWeight: 0, vpWeight: 1, hpWeight: 0, mpWeight: 0 },
+    { name: 'Ausgewogen', apWeight: 1, vpWeight: 1, hpWeight: 0, mpWeight: 0 },
+    { name: 'Lebenspunkte', apWeight: 0, vpWeight: 0, hpWeight: 1, mpWeight: 0 },
+];
+
+// the request for the best set of a unit without any of the further options of the calculator
+export function toDefaultRequest(
+    unit: Pick<Unit, 'carryWeight' | 'element' | 'ranged'>,
+    weighting: StatWeights,
+    waffenschmiede: number,
+    schmiedekunst: number,
+): EquipmentRequest {
+    return {
+        unitCarryWeight: unit.carryWeight,
+        unitElement: unit.element,
+        unitRanged: unit.ranged,
+        waffenschmiede,
+        schmiedekunst,
+        rangedRequired: false,
+        rangedForbidden: false,
+        apWeight: weighting.apWeight,
+        vpWeight: weighting.vpWeight,
+        hpWeight: weighting.hpWeight,
+        mpWeight: weighting.mpWeight,
+        ignoredItems: [],
+        pinnedItems: [],
+        limit: 1,
+    };
+}
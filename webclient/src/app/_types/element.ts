@@ -10,3 +10,24 @@ export enum Element {
 
 // @ts-ignore
 export const elements = Object.keys(Element).map((k) => Element[k]);
+
+export const RANGED_ICON = 'assets/images/ranged.png';
+
+export function getElementIcons(element: Element): Array<string> {
+    switch (element) {
+        case Element.FIRE_AIR:
+            return ['assets/images/fire.gif', 'assets/images/wind.gif'];
+        case Element.FIRE:
+            return ['assets/images/fire.gif'];
+        case Element.AIR:
+            return ['assets/images/wind.gif'];
+        case Element.EARTH_ICE:
+            return ['assets/images/earth.gif', 'assets/images/ice.gif'];
+        case Element.EARTH:
+            return ['assets/images/earth.gif'];
+        case Element.ICE:
+            return ['assets/images/ice.gif'];
+        case Element.NONE:
+            return [];
+    }
+}
@@ -0,0 +1,26 @@
+import { Element } from './element';
+import { StatWeights } from './stat-weights';
+import { StatBounds } from './stat-bounds';
+import { BaseStats } from './base-stats';
+
+/**
+ * Parameters of an equipment calculation. The property names match the query parameters of the API.
+ * With all base stats of the unit, the score is the improvement over them in percent.
+ */
+export interface EquipmentRequest extends StatWeights, StatBounds, Partial<BaseStats> {
+    unitCarryWeight: number;
+    unitElement: Element;
+    unitRanged: boolean;
+    waffenschmiede: number;
+    // the score and the stat bounds use the stats including the Schmiedekunst bonus
+    schmiedekunst: number;
+    rangedRequired: boolean;
+    rangedForbidden: boolean;
+    elementAttack?: Element;
+    elementDefense?: Element;
+    ignoredItems: string[];
+    // items that have to be part of every set
+    pinnedItems: string[];
+    // number of sets to rank
+    limit: number;
+}
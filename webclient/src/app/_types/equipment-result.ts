@@ -0,0 +1,7 @@
+import { RankedEquipmentSet } from './ranked-equipment-set';
+import { CalculationEngine } from './calculation-engine';
+
+export interface EquipmentResult {
+    sets: Array<RankedEquipmentSet>;
+    engine: CalculationEngine;
+}
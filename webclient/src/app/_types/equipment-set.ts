@@ -1,4 +1,7 @@
-import { ap, Equipment, hp, mp, vp } from './equipment';
+import { ap, Equipment, hp, mp, statValue, vp, weightedValue } from './equipment';
+import { StatWeights } from './stat-weights';
+import { Stat } from './stat';
+import { BaseStats } from './base-stats';
 
 export interface EquipmentSet {
     weapon: Equipment;
@@ -28,6 +31,18 @@ export function totalMP(set?: EquipmentSet, schmiedekunst = 0): number {
     return allItems(set).reduce((acc, curr) => acc + mp(curr, schmiedekunst), 0);
 }
 
+export function totalStat(set: EquipmentSet | undefined, stat: Stat, schmiedekunst = 0): number {
+    return allItems(set).reduce((acc, curr) => acc + statValue(curr, stat, schmiedekunst), 0);
+}
+
 export function totalWeight(set?: EquipmentSet): number {
     return allItems(set).reduce((acc: number, curr: Equipment) => acc + curr.weight, 0);
 }
+
+export function weightedTotal(
+    set: EquipmentSet | undefined,
+    weights: StatWeights & Partial<BaseStats>,
+    schmiedekunst = 0,
+): number {
+    return allItems(set).reduce((acc, curr) => acc + weightedValue(curr, weights, schmiedekunst), 0);
+}
@@ -0,0 +1,61 @@
+import { EQUIPMENT_LABELS } from '../_constants/equipment.constants';
+
+import { ALL_ACCESSORIES, ALL_ARMOUR, ALL_HELMETS, ALL_SHIELDS, ALL_WEAPONS, Equipment } from './equipment';
+import { EquipmentSet } from './equipment-set';
+
+export enum EquipmentSlot {
+    WEAPON = 'WEAPON',
+    SHIELD = 'SHIELD',
+    ARMOUR = 'ARMOUR',
+    HELMET = 'HELMET',
+    ACCESSORY = 'ACCESSORY',
+}
+
+export const equipmentSlots: Array<EquipmentSlot> = Object.values(EquipmentSlot);
+
+export function getSlotItems(slot: EquipmentSlot): Array<Equipment> {
+    switch (slot) {
+        case EquipmentSlot.WEAPON:
+            return ALL_WEAPONS;
+        case EquipmentSlot.SHIELD:
+            return ALL_SHIELDS;
+        case EquipmentSlot.ARMOUR:
+            return ALL_ARMOUR;
+        case EquipmentSlot.HELMET:
+            return ALL_HELMETS;
+        case EquipmentSlot.ACCESSORY:
+            return ALL_ACCESSORIES;
+    }
+}
+
+// the slot of the first item with the given name, names other than the default item are unique
+export function findEquipmentSlot(name: string): EquipmentSlot | undefined {
+    return equipmentSlots.find((slot) => getSlotItems(slot).some((item) => item.name === name));
+}
+
+export function findEquipment(name: string): Equipment | undefined {
+    const slot = findEquipmentSlot(name);
+    return slot && getSlotItems(slot).find((item) => item.name === name);
+}
+
+// the property of an equipment set that holds the item of the slot
+export function getSetKey(slot: EquipmentSlot): keyof EquipmentSet {
+    return slot.toLowerCase() as keyof EquipmentSet;
+}
+
+export interface SetItem {
+    slot: EquipmentSlot;
+    label: string;
+    equipment: Equipment;
+}
+
+// the items of the set in the order they are shown
+export function getEquipmentItems(set: EquipmentSet): Array<SetItem> {
+    return [
+        { slot: EquipmentSlot.WEAPON, label: EQUIPMENT_LABELS.WEAPON, equipment: set.weapon },
+        { slot: EquipmentSlot.SHIELD, label: EQUIPMENT_LABELS.SHIELD, equipment: set.shield },
+        { slot: EquipmentSlot.ARMOUR, label: EQUIPMENT_LABELS.ARMOUR, equipment: set.armour },
+        { slot: EquipmentSlot.HELMET, label: EQUIPMENT_LABELS.HELMET, equipment: set.helmet },
+        { slot: EquipmentSlot.ACCESSORY, label: EQUIPMENT_LABELS.ACCESSORY, equipment: set.accessory },
+    ];
+}
@@ -1,4 +1,7 @@
 import { Element } from './element';
+import { StatWeights } from './stat-weights';
+import { Stat } from './stat';
+import { BaseStats, hasBaseStats, percentOf } from './base-stats';
 
 const SK_FACTOR = 0.025;
 
@@ -36,6 +39,42 @@ export function mp(equipment: Equipment, schmiedekunst: number): number {
     return totalValue(equipment.mp, schmiedekunst);
 }
 
+export function statValue(equipment: Equipment, stat: Stat, schmiedekunst: number): number {
+    switch (stat) {
+        case Stat.AP:
+            return ap(equipment, schmiedekunst);
+        case Stat.VP:
+            return vp(equipment, schmiedekunst);
+        case Stat.HP:
+            return hp(equipment, schmiedekunst);
+        case Stat.MP:
+            return mp(equipment, schmiedekunst);
+    }
+}
+
+// Without any weighting all stats count equally, as in the backend. With base stats every stat counts in percent of
+// the base stat, rounded per item like in the backend.
+export function weightedValue(
+    equipment: Equipment,
+    weights: StatWeights & Partial<BaseStats>,
+    schmiedekunst: number,
+): number {
+    const { apWeight, vpWeight, hpWeight, mpWeight } = weights;
+    const unweighted = apWeight + vpWeight + hpWeight + mpWeight === 0;
+    const weightedAp = ap(equipment, schmiedekunst) * (unweighted ? 1 : apWeight);
+    const weightedVp = vp(equipment, schmiedekunst) * (unweighted ? 1 : vpWeight);
+    const weightedHp = hp(equipment, schmiedekunst) * (unweighted ? 1 : hpWeight);
+    const weightedMp = mp(equipment, schmiedekunst) * (unweighted ? 1 : mpWeight);
+    if (!hasBaseStats(weights)) return weightedAp + weightedVp + weightedHp + weightedMp;
+
+    return Math.round(
+        percentOf(weightedAp, weights.baseAp) +
+            percentOf(weightedVp, weights.baseVp) +
+            percentOf(weightedHp, weights.baseHp) +
+            percentOf(weightedMp, weights.baseMp),
+    );
+}
+
 export const ALL_HELMETS: Array<Equipment> = [
     equipment(0, 0, 0, 0, 0, false, Element.NONE, 0, 'besser nix'),
     equipment(0, 5, 5, 0, 2, false, Element.NONE, 1, 'Federkappe'),
@@ -3,4 +3,6 @@ export enum ErrorType {
     INVALID_UNIT = 'INVALID_UNIT',
     INVALID_ITEM_COMBINATION = 'INVALID_ITEM_COMBINATION',
     INVALID_INPUT = 'INVALID_INPUT',
+    STAT_BOUND = 'STAT_BOUND',
+    INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
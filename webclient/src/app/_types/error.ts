@@ -1,6 +1,14 @@
 import { ErrorType } from './error-type';
+import { ApiErrorDetails } from './api-error';
 
 export interface Error {
     type: ErrorType;
     message: string;
+    // set for errors reported by the API
+    details?: ApiErrorDetails;
+}
+
+export function isError(value: unknown): value is Error {
+    const error = value as Partial<Error> | undefined;
+    return !!error && Object.values(ErrorType).includes(error.type as ErrorType) && typeof error.message === 'string';
 }
@@ -0,0 +1,9 @@
+import { Error } from './error';
+import { ErrorType } from './error-type';
+
+// failures that aren't typed errors, e.g. an unexpected response or an exception
+export class InternalError implements Error {
+    public type = ErrorType.INTERNAL_ERROR;
+
+    constructor(public message: string = 'Ein unbekannter Fehler ist aufgetreten.') {}
+}
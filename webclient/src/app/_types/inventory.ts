@@ -0,0 +1,21 @@
+import { DEFAULT_EQUIPMENT_NAME } from '../_constants/equipment.constants';
+
+import { equipmentSlots, getSlotItems } from './equipment-slot';
+
+/**
+ * Number of owned pieces per item name. Items without an entry are not owned, the default item is always available.
+ */
+export type Inventory = Record<string, number>;
+
+// the default item is never used up
+export function availableCount(inventory: Inventory, itemName: string): number {
+    return itemName === DEFAULT_EQUIPMENT_NAME ? Number.POSITIVE_INFINITY : inventory[itemName] ?? 0;
+}
+
+// names of all items without a piece in the inventory, the default item is always available
+export function getUnownedItems(inventory: Inventory): Array<string> {
+    return equipmentSlots
+        .flatMap((slot) => getSlotItems(slot))
+        .map((item) => item.name)
+        .filter((name) => availableCount(inventory, name) <= 0);
+}
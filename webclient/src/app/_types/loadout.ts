@@ -0,0 +1,23 @@
+import { CalculatorInputs, CalculatorLinkOptions } from './calculator-inputs';
+import { EquipmentSet } from './equipment-set';
+
+/**
+ * A named set of the loadout library together with the inputs and options it was calculated with, including the unit
+ * and the Schmiedekunst level.
+ */
+export interface Loadout {
+    id: number;
+    name: string;
+    note: string;
+    tags: Array<string>;
+    inputs: CalculatorInputs;
+    // missing in loadouts saved before the options were, loading them keeps the current options
+    options?: CalculatorLinkOptions;
+    set: EquipmentSet;
+}
+
+export type LoadoutChanges = Partial<Pick<Loadout, 'name' | 'note' | 'tags'>>;
+
+export function getNextLoadoutId(loadouts: Array<Loadout>): number {
+    return Math.max(0, ...loadouts.map(({ id }) => id)) + 1;
+}
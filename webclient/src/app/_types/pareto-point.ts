@@ -0,0 +1,7 @@
+import { EquipmentSet } from './equipment-set';
+
+export interface ParetoPoint {
+    set: EquipmentSet;
+    x: number;
+    y: number;
+}
@@ -0,0 +1,6 @@
+import { EquipmentSet } from './equipment-set';
+
+export interface RankedEquipmentSet {
+    set: EquipmentSet;
+    score: number;
+}
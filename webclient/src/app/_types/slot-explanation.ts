@@ -0,0 +1,32 @@
+import { EquipmentSlot } from './equipment-slot';
+
+export enum RejectionReason {
+    IGNORED = 'IGNORED',
+    WAFFENSCHMIEDE = 'WAFFENSCHMIEDE',
+    RANGED = 'RANGED',
+    ELEMENT = 'ELEMENT',
+    WEIGHT = 'WEIGHT',
+    STAT_BOUNDS = 'STAT_BOUNDS',
+}
+
+export interface RejectedItem {
+    name: string;
+    // how much higher the weighted score of the item is than the one of the chosen item
+    scoreDifference: number;
+    reason: RejectionReason;
+}
+
+/**
+ * Why the item of a slot was chosen, compared to the other items of the slot while the rest of the set stays the same.
+ */
+export interface SlotExplanation {
+    slot: EquipmentSlot;
+    item: string;
+    pinned: boolean;
+    // the best other item that still gives a valid set, undefined if there is none
+    alternative?: string;
+    // the weighted score lost by switching to the alternative
+    scoreDifference?: number;
+    // the best item with a higher weighted score than the chosen one per reason it cannot be used, best first
+    rejected: Array<RejectedItem>;
+}
@@ -0,0 +1,9 @@
+import { EquipmentSlot } from './equipment-slot';
+
+export const SLOT_NAMES: Record<EquipmentSlot, string> = {
+    [EquipmentSlot.WEAPON]: 'Waffe',
+    [EquipmentSlot.SHIELD]: 'Schild',
+    [EquipmentSlot.ARMOUR]: 'Rüstung',
+    [EquipmentSlot.HELMET]: 'Helm',
+    [EquipmentSlot.ACCESSORY]: 'Schmuck',
+};
@@ -0,0 +1,10 @@
+import { ErrorType } from './error-type';
+import { Error } from './error';
+
+export class StatBoundError implements Error {
+    public type = ErrorType.STAT_BOUND;
+
+    constructor(
+        public message: string = 'Die gewählten Mindest- und Höchstwerte können nicht gleichzeitig erfüllt werden.',
+    ) {}
+}
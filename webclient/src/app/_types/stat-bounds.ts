@@ -0,0 +1,44 @@
+import { Stat } from './stat';
+
+/**
+ * Optional lower and upper bounds of the total stats of a set, including the Schmiedekunst bonus.
+ * The property names match the query parameters of the API.
+ */
+export interface StatBounds {
+    minAp?: number;
+    maxAp?: number;
+    minVp?: number;
+    maxVp?: number;
+    minHp?: number;
+    maxHp?: number;
+    minMp?: number;
+    maxMp?: number;
+}
+
+export interface StatBound {
+    stat: Stat;
+    min?: number;
+    max?: number;
+}
+
+const BOUND_KEYS: Record<Stat, [keyof StatBounds, keyof StatBounds]> = {
+    [Stat.AP]: ['minAp', 'maxAp'],
+    [Stat.VP]: ['minVp', 'maxVp'],
+    [Stat.HP]: ['minHp', 'maxHp'],
+    [Stat.MP]: ['minMp', 'maxMp'],
+};
+
+export function minBoundKey(stat: Stat): keyof StatBounds {
+    return BOUND_KEYS[stat][0];
+}
+
+export function maxBoundKey(stat: Stat): keyof StatBounds {
+    return BOUND_KEYS[stat][1];
+}
+
+// the bounds of all stats that have a minimum or a maximum set
+export function getStatBounds(bounds: StatBounds): Array<StatBound> {
+    return Object.values(Stat)
+        .map((stat) => ({ stat, min: bounds[minBoundKey(stat)], max: bounds[maxBoundKey(stat)] }))
+        .filter(({ min, max }) => min !== undefined || max !== undefined);
+}
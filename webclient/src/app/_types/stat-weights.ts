@@ -0,0 +1,6 @@
+export interface StatWeights {
+    apWeight: number;
+    vpWeight: number;
+    hpWeight: number;
+    mpWeight: number;
+}
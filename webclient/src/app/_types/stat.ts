@@ -0,0 +1,9 @@
+export enum Stat {
+    AP = 'AP',
+    VP = 'VP',
+    HP = 'HP',
+    MP = 'MP',
+}
+
+// @ts-ignore
+export const stats = Object.keys(Stat).map((k) => Stat[k]);
@@ -0,0 +1,27 @@
+import { Error } from './error';
+
+export interface Status {
+    loading: boolean;
+    error?: Error;
+    idle: boolean;
+}
+
+export const IDLE_STATUS: Status = {
+    loading: false,
+    error: undefined,
+    idle: true,
+};
+
+export const LOADING_STATUS: Status = {
+    loading: true,
+    error: undefined,
+    idle: false,
+};
+
+export function errorStatus(error: Error): Status {
+    return {
+        loading: false,
+        error: error,
+        idle: false,
+    };
+}
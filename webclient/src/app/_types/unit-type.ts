@@ -7,3 +7,15 @@ export enum UnitType {
     GHOST = 'GHOST',
     NONE = 'NONE',
 }
+
+export const UNIT_TYPE_NAMES: Record<UnitType, string> = {
+    [UnitType.UNDEAD]: 'Untote',
+    [UnitType.HUMAN]: 'Menschen',
+    [UnitType.DEMON]: 'Dämonen',
+    [UnitType.DRAGON]: 'Drachen',
+    [UnitType.ELEMENTAL]: 'Elementare',
+    [UnitType.GHOST]: 'Geister',
+    [UnitType.NONE]: 'Sonstige',
+};
+
+export const unitTypes: Array<UnitType> = Object.values(UnitType);
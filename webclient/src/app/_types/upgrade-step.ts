@@ -0,0 +1,9 @@
+import { RankedEquipmentSet } from './ranked-equipment-set';
+
+export interface UpgradeStep {
+    waffenschmiede: number;
+    // the best set at this level, undefined if no valid set exists
+    best?: RankedEquipmentSet;
+    // items that require exactly this level, empty for the current level
+    unlockedItems: Array<string>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Lets the browser save the content as a file with the given name.
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+    downloadDataUrl(fileName, `data:${type},${encodeURIComponent(content)}`);
+}
+
+export function downloadDataUrl(fileName: string, dataUrl: string): void {
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = fileName;
+    link.click();
+}
@@ -0,0 +1,146 @@
+import { Element } from '../_types/element';
+
+/**
+ * Client-side mirror of the element rules in the backend's Element companion object.
+ * Unlike the backend, mismatches are signalled by returning undefined instead of throwing.
+ */
+
+const BASE_ELEMENTS = [Element.FIRE, Element.EARTH, Element.ICE, Element.AIR];
+const DUAL_ELEMENTS = [Element.FIRE_AIR, Element.EARTH_ICE];
+
+function hasFire(element: Element): boolean {
+    return element === Element.FIRE || element === Element.FIRE_AIR;
+}
+
+function hasAir(element: Element): boolean {
+    return element === Element.AIR || element === Element.FIRE_AIR;
+}
+
+function hasEarth(element: Element): boolean {
+    return element === Element.EARTH || element === Element.EARTH_ICE;
+}
+
+function hasIce(element: Element): boolean {
+    return element === Element.ICE || element === Element.EARTH_ICE;
+}
+
+function combineTwo(element1: Element, element2: Element): Element | undefined {
+    if (element1 === element2) return element1;
+    if (element1 === Element.NONE) return element2;
+    if (element2 === Element.NONE) return element1;
+
+    if ((hasFire(element1) && hasAir(element2)) || (hasAir(element1) && hasFire(element2))) {
+        return Element.FIRE_AIR;
+    }
+    if ((hasEarth(element1) && hasIce(element2)) || (hasIce(element1) && hasEarth(element2))) {
+        return Element.EARTH_ICE;
+    }
+    return undefined;
+}
+
+/**
+ * Combines the given elements from left to right. Undefined entries are skipped,
+ * undefined is returned if two of the elements cannot be combined.
+ */
+export function combineElements(...elements: Array<Element | undefined>): Element | undefined {
+    let result = Element.NONE;
+    for (const element of elements) {
+        if (element === undefined) continue;
+        const combined = combineTwo(result, element);
+        if (combined === undefined) return undefined;
+        result = combined;
+    }
+    return result;
+}
+
+export function isValidElementCombination(...elements: Array<Element | undefined>): boolean {
+    return combineElements(...elements) !== undefined;
+}
+
+/**
+ * Whether a set of the unit can have the target attack element, an undefined target is always achievable.
+ */
+export function attackElementAchievable(unitElement: Element, targetElement?: Element): boolean {
+    if (targetElement === undefined) return true;
+    if (!isValidElementCombination(unitElement, targetElement)) return false;
+    if (unitElement === Element.NONE) return targetElement === Element.NONE || BASE_ELEMENTS.includes(targetElement);
+    if (BASE_ELEMENTS.includes(unitElement)) {
+        return targetElement === unitElement || DUAL_ELEMENTS.includes(targetElement);
+    }
+    return targetElement === unitElement;
+}
+
+/**
+ * Whether a set of the unit can have the target defense element, an undefined target is always achievable.
+ */
+export function defenseElementAchievable(unitElement: Element, targetElement?: Element): boolean {
+    if (targetElement === undefined) return true;
+    if (!isValidElementCombination(unitElement, targetElement)) return false;
+    if (DUAL_ELEMENTS.includes(targetElement)) return true;
+    if (unitElement === Element.NONE) return true;
+    if (BASE_ELEMENTS.includes(unitElement)) {
+        return targetElement === unitElement || DUAL_ELEMENTS.includes(targetElement);
+    }
+    return targetElement === unitElement;
+}
+
+/**
+ * The element check of the backend before a calculation: both targets have to be achievable and fit together with the
+ * element of the unit.
+ */
+export function isValidElementChoice(unitElement: Element, elementAttack?: Element, elementDefense?: Element): boolean {
+    return (
+        attackElementAchievable(unitElement, elementAttack) &&
+        defenseElementAchievable(unitElement, elementDefense) &&
+        isValidElementCombination(unitElement, elementAttack, elementDefense)
+    );
+}
+
+function getValidElementCombinations(unitElement: Element): Array<Element> {
+    if (unitElement === Element.NONE) return [Element.NONE, ...BASE_ELEMENTS];
+    if (hasFire(unitElement) || hasAir(unitElement)) return [Element.NONE, Element.FIRE, Element.AIR];
+    if (hasEarth(unitElement) || hasIce(unitElement)) return [Element.NONE, Element.EARTH, Element.ICE];
+    return [];
+}
+
+/**
+ * Returns the weapon elements that lead to the target attack element, or undefined if it is not achievable.
+ */
+export function getWantedWeaponElements(unitElement: Element, targetElement?: Element): Array<Element> | undefined {
+    if (!attackElementAchievable(unitElement, targetElement)) return undefined;
+    if (targetElement === undefined) return getValidElementCombinations(unitElement);
+    if (unitElement === Element.NONE || targetElement === Element.NONE) return [targetElement];
+
+    if (BASE_ELEMENTS.includes(unitElement) && targetElement === unitElement) return [Element.NONE, unitElement];
+    if (unitElement === Element.FIRE && targetElement === Element.FIRE_AIR) return [Element.AIR];
+    if (unitElement === Element.AIR && targetElement === Element.FIRE_AIR) return [Element.FIRE];
+    if (unitElement === Element.EARTH && targetElement === Element.EARTH_ICE) return [Element.ICE];
+    if (unitElement === Element.ICE && targetElement === Element.EARTH_ICE) return [Element.EARTH];
+    if (unitElement === Element.FIRE_AIR && targetElement === Element.FIRE_AIR) {
+        return [Element.NONE, Element.FIRE, Element.AIR];
+    }
+    if (unitElement === Element.EARTH_ICE && targetElement === Element.EARTH_ICE) {
+        return [Element.NONE, Element.EARTH, Element.ICE];
+    }
+    return [];
+}
+
+/**
+ * Returns the shield and armour elements that lead to the target defense element, or undefined if it is not
+ * achievable.
+ */
+export function getWantedDefenseElements(unitElement: Element, targetElement?: Element): Array<Element> | undefined {
+    if (!defenseElementAchievable(unitElement, targetElement)) return undefined;
+    if (targetElement === undefined) return getValidElementCombinations(unitElement);
+    if (unitElement === Element.NONE) {
+        if (targetElement === Element.FIRE_AIR) return [Element.FIRE, Element.AIR];
+        if (targetElement === Element.EARTH_ICE) return [Element.EARTH, Element.ICE];
+        return targetElement === Element.NONE ? [Element.NONE] : [Element.NONE, targetElement];
+    }
+    if (targetElement === Element.NONE) return [Element.NONE];
+
+    if (BASE_ELEMENTS.includes(unitElement) && targetElement === unitElement) return [Element.NONE, unitElement];
+    if (targetElement === Element.FIRE_AIR) return [Element.NONE, Element.FIRE, Element.AIR];
+    if (targetElement === Element.EARTH_ICE) return [Element.NONE, Element.EARTH, Element.ICE];
+    return [];
+}
@@ -1,4 +1,4 @@
-import { HttpParams } from '@angular/common/http';
+import { HttpErrorResponse, HttpParams } from '@angular/common/http';
 
 export function toHttpParams(data: Record<string, unknown>): HttpParams {
     const fromObject: Record<string, string> = {};
@@ -7,3 +7,8 @@ export function toHttpParams(data: Record<string, unknown>): HttpParams {
     });
     return new HttpParams({ fromObject });
 }
+
+// Status 0 means the request never got a response, 502-504 are reported by a proxy in front of a dead backend
+export function isUnreachable(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && [0, 502, 503, 504].includes(error.status);
+}
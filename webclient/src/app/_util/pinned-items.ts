@@ -0,0 +1,70 @@
+import { EquipmentRequest } from '../_types/equipment-request';
+import { Equipment } from '../_types/equipment';
+import { EquipmentSlot, findEquipment, findEquipmentSlot } from '../_types/equipment-slot';
+import { Error } from '../_types/error';
+import { ElementMismatchError } from '../_types/element-mismatch-error';
+import { InvalidItemCombinationError } from '../_types/invalid-item-combination-error';
+
+import { getWantedDefenseElements, getWantedWeaponElements, isValidElementCombination } from './element-rules';
+
+/**
+ * Checks if the pinned items of the request can be worn by the unit, alone and together.
+ * Returns the error for the first problem found or undefined if all pins are valid.
+ */
+export function getPinnedItemsError(request: EquipmentRequest): Error | undefined {
+    const pinned: Array<Equipment> = [];
+    for (const name of request.pinnedItems) {
+        const slot = findEquipmentSlot(name);
+        const item = findEquipment(name);
+        if (!slot || !item) return new InvalidItemCombinationError(`${name} ist kein bekannter Gegenstand.`);
+
+        const error = getPinnedItemError(request, slot, item);
+        if (error) return error;
+        pinned.push(item);
+    }
+
+    if (!isValidElementCombination(request.unitElement, ...pinned.map((item) => item.element))) {
+        return new ElementMismatchError('Die Elemente der fixierten Gegenstände passen nicht zusammen.');
+    }
+    const weight = pinned.reduce((acc, curr) => acc + curr.weight, 0);
+    if (weight > request.unitCarryWeight) {
+        return new InvalidItemCombinationError(
+            `Die fixierten Gegenstände sind zu schwer (${weight} Kraft, die Einheit hat ${request.unitCarryWeight}).`,
+        );
+    }
+    return undefined;
+}
+
+function getPinnedItemError(request: EquipmentRequest, slot: EquipmentSlot, item: Equipment): Error | undefined {
+    const { unitElement, unitCarryWeight, unitRanged, waffenschmiede, rangedRequired, rangedForbidden } = request;
+    const wantedElements =
+        slot === EquipmentSlot.WEAPON
+            ? getWantedWeaponElements(unitElement, request.elementAttack)
+            : slot === EquipmentSlot.ARMOUR || slot === EquipmentSlot.SHIELD
+              ? getWantedDefenseElements(unitElement, request.elementDefense)
+              : undefined;
+
+    if (
+        !isValidElementCombination(unitElement, item.element) ||
+        (wantedElements && wantedElements.length > 0 && !wantedElements.includes(item.element))
+    ) {
+        return new ElementMismatchError(`${item.name} passt nicht zu den gewählten Elementen.`);
+    }
+    if (item.requiredWaffenschmiede > waffenschmiede) {
+        return new InvalidItemCombinationError(
+            `${item.name} benötigt Waffenschmiede ${item.requiredWaffenschmiede}, vorhanden ist ${waffenschmiede}.`,
+        );
+    }
+    if (item.weight > unitCarryWeight) {
+        return new InvalidItemCombinationError(
+            `${item.name} ist zu schwer (${item.weight} Kraft, die Einheit hat ${unitCarryWeight}).`,
+        );
+    }
+    if (item.ranged && (!unitRanged || rangedForbidden)) {
+        return new InvalidItemCombinationError(`${item.name} ist eine FK-Waffe, die die Einheit nicht tragen darf.`);
+    }
+    if (slot === EquipmentSlot.WEAPON && rangedRequired && !item.ranged) {
+        return new InvalidItemCombinationError(`${item.name} ist keine FK-Waffe.`);
+    }
+    return undefined;
+}
@@ -2,9 +2,21 @@ import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 
 import { EquipmentCalculatorComponent } from './_components/equipment-calculator/equipment-calculator.component';
+import { ArmyCalculatorComponent } from './_components/army-calculator/army-calculator.component';
+import { ItemCatalogComponent } from './_components/item-catalog/item-catalog.component';
+import { UnitCatalogComponent } from './_components/unit-catalog/unit-catalog.component';
+import { UnitDetailComponent } from './_components/unit-detail/unit-detail.component';
+import { ArmyBuilderComponent } from './_components/army-builder/army-builder.component';
+import { BattleSimulatorComponent } from './_components/battle-simulator/battle-simulator.component';
 
 const routes: Routes = [
     { path: '', component: EquipmentCalculatorComponent },
+    { path: 'army', component: ArmyCalculatorComponent },
+    { path: 'army-builder', component: ArmyBuilderComponent },
+    { path: 'items', component: ItemCatalogComponent },
+    { path: 'units', component: UnitCatalogComponent },
+    { path: 'units/:name', component: UnitDetailComponent },
+    { path: 'battle', component: BattleSimulatorComponent },
     { path: '**', redirectTo: '' },
 ];
 
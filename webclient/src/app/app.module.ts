@@ -17,6 +17,10 @@ import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatChipsModule } from '@angular/material/chips';
+import { MatExpansionModule } from '@angular/material/expansion';
+import { MatTableModule } from '@angular/material/table';
+import { MatSortModule } from '@angular/material/sort';
+import { MatRadioModule } from '@angular/material/radio';
 
 import { AppComponent } from './app.component';
 import { AboutDialogComponent } from './_components/about-dialog/about-dialog.component';
@@ -24,6 +28,21 @@ import { HelpDialogComponent } from './_components/help-dialog/help-dialog.compo
 import { EquipmentSetComponent } from './_components/equipment-calculator/_components/equipment-set/equipment-set.component';
 import { StatWeightingComponent } from './_components/equipment-calculator/_components/stat-weighting/stat-weighting.component';
 import { BaseDataInputComponent } from './_components/equipment-calculator/_components/base-data-input/base-data-input.component';
+import { ParetoFrontComponent } from './_components/equipment-calculator/_components/pareto-front/pareto-front.component';
+import { ArmyCalculatorComponent } from './_components/army-calculator/army-calculator.component';
+import { ArmyUnitListComponent } from './_components/army-calculator/_components/army-unit-list/army-unit-list.component';
+import { InventoryEditorComponent } from './_components/inventory-editor/inventory-editor.component';
+import { UpgradePlannerComponent } from './_components/equipment-calculator/_components/upgrade-planner/upgrade-planner.component';
+import { LoadoutLibraryComponent } from './_components/equipment-calculator/_components/loadout-library/loadout-library.component';
+import { ComparisonTableComponent } from './_components/equipment-calculator/_components/comparison-table/comparison-table.component';
+import { CarryWeightSweepComponent } from './_components/equipment-calculator/_components/carry-weight-sweep/carry-weight-sweep.component';
+import { ItemCatalogComponent } from './_components/item-catalog/item-catalog.component';
+import { ItemFilterComponent } from './_components/item-catalog/_components/item-filter/item-filter.component';
+import { UnitCatalogComponent } from './_components/unit-catalog/unit-catalog.component';
+import { UnitDetailComponent } from './_components/unit-detail/unit-detail.component';
+import { BattleSimulatorComponent } from './_components/battle-simulator/battle-simulator.component';
+import { ArmyBuilderComponent } from './_components/army-builder/army-builder.component';
+import { BattleSideInputComponent } from './_components/battle-simulator/_components/battle-side-input/battle-side-input.component';
 import { AppRoutingModule } from './app-routing.module';
 import { EquipmentCalculatorComponent } from './_components/equipment-calculator/equipment-calculator.component';
 import { ContextComponent } from './_components/context/context.component';
@@ -38,6 +57,21 @@ import { ContextComponent } from './_components/context/context.component';
         BaseDataInputComponent,
         StatWeightingComponent,
         EquipmentSetComponent,
+        ParetoFrontComponent,
+        ArmyCalculatorComponent,
+        ArmyUnitListComponent,
+        InventoryEditorComponent,
+        UpgradePlannerComponent,
+        LoadoutLibraryComponent,
+        ComparisonTableComponent,
+        CarryWeightSweepComponent,
+        ItemCatalogComponent,
+        ItemFilterComponent,
+        UnitCatalogComponent,
+        UnitDetailComponent,
+        BattleSimulatorComponent,
+        BattleSideInputComponent,
+        ArmyBuilderComponent,
     ],
     imports: [
         BrowserModule,
@@ -59,6 +93,10 @@ import { ContextComponent } from './_components/context/context.component';
         MatProgressSpinnerModule,
         MatSnackBarModule,
         MatChipsModule,
+        MatExpansionModule,
+        MatTableModule,
+        MatSortModule,
+        MatRadioModule,
     ],
     providers: [],
     bootstrap: [AppComponent],